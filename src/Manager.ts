@@ -1,18 +1,55 @@
 import GPortalAuth from "./auth/Auth";
+import FileAuthStore from "./auth/FileAuthStore";
+import TokenProviderAuth from "./auth/TokenProviderAuth";
 import GPortalSocket from "./socket/Socket";
 import ServerManager from "./servers/Servers";
+import ConsoleParsers from "./socket/ConsoleParsers";
+import FileCheckpointStore from "./socket/FileCheckpointStore";
+import KillFeed from "./socket/KillFeed";
+import type { ILogCheckpointStore } from "./socket/interfaces";
 import RCELogger from "./logger/Logger";
-import type { AuthOptions, LoggerOptions, RCEEventTypes } from "./interfaces";
+import type {
+  AccountOptions,
+  AuthOptions,
+  LoggerOptions,
+  RCEAccount,
+  RCEEventTypes,
+  ServerEvent,
+} from "./interfaces";
+import type { RustServer } from "./servers/interfaces";
 import { EventEmitter } from "events";
+import { watchFile, unwatchFile, Stats } from "fs";
 import { ILogger } from "./logger/interfaces";
+import type { IAuthProvider } from "./auth/interfaces";
 import CommandHandler from "./servers/CommandHandler";
-import { RCEEvent } from "./constants";
+import ConfigLoader from "./config/ConfigLoader";
+import type { RCEConfig } from "./config/interfaces";
+import { DEFAULT_ACCOUNT, RCEEvent } from "./constants";
+
+// The timestamp is optional when emitting, it defaults to now
+type EmittedPayload<T> = T extends { timestamp: Date }
+  ? Omit<T, "timestamp"> & { timestamp?: Date }
+  : T;
 
 class RCEEventManager extends EventEmitter {
+  private _scope: object = {};
+
   emit<K extends keyof RCEEventTypes>(
     event: K,
-    ...args: RCEEventTypes[K] extends undefined ? [] : [RCEEventTypes[K]]
+    ...args: RCEEventTypes[K] extends undefined
+      ? []
+      : [EmittedPayload<RCEEventTypes[K]>]
   ): boolean {
+    const payload: EmittedPayload<RCEEventTypes[K]> | undefined = args[0];
+    if (payload && typeof payload === "object") {
+      const timestamp =
+        "timestamp" in payload && payload.timestamp instanceof Date
+          ? payload.timestamp
+          : new Date();
+
+      return super.emit(event, { ...this._scope, ...payload, timestamp });
+    }
+
     return super.emit(event, ...args);
   }
 
@@ -36,29 +73,99 @@ class RCEEventManager extends EventEmitter {
   ): this {
     return super.off(event, listener);
   }
+
+  /**
+   *
+   * @param fields {object} - Added to every payload emitted while the callback runs
+   * @param callback {Function} - Emits the events synchronously
+   * @returns {any} - What the callback returned
+   *
+   * @example
+   * ```js
+   * rce.events.scope({ backfilled: true }, () => rce.consoleParsers.parse(context));
+   * ```
+   */
+  scope<T>(fields: object, callback: () => T): T {
+    const previous = this._scope;
+    this._scope = { ...previous, ...fields };
+
+    try {
+      return callback();
+    } finally {
+      this._scope = previous;
+    }
+  }
+
+  /**
+   *
+   * @param tags {string | string[]} - Only servers with at least one of these tags raise the listener
+   * @param event {RCEEvent} - A server event
+   * @param listener {Function} - The listener
+   * @returns {Function} - The registered listener, pass it to `off` to remove it
+   *
+   * @example
+   * ```js
+   * rce.events.onTag("pvp", RCEEvent.PlayerKill, (data) => {
+   *   console.log(`${data.killer.name} killed ${data.victim.name}`);
+   * });
+   * ```
+   */
+  onTag<K extends ServerEvent>(
+    tags: string | string[],
+    event: K,
+    listener: (arg: RCEEventTypes[K]) => void
+  ) {
+    const filter = Array.isArray(tags) ? tags : [tags];
+    const wrapped = (payload: RCEEventTypes[K]) => {
+      const server = (payload as { server: RustServer }).server;
+      if (server.tags.some((tag) => filter.includes(tag))) {
+        listener(payload);
+      }
+    };
+
+    this.on(event, wrapped);
+    return wrapped;
+  }
 }
 
 export default class RCEManager {
-  private _auth: GPortalAuth;
-  private _socket: GPortalSocket;
+  private _accounts: Map<string, RCEAccount> = new Map();
+  private _initialization: Promise<void>;
   private _plugins: Map<string, any> = new Map();
+  private _watcher?: {
+    file: string;
+    listener: (current: Stats, previous: Stats) => void;
+    timeout?: NodeJS.Timeout;
+  };
   public logger: ILogger;
   public events: RCEEventManager = new RCEEventManager();
   public servers: ServerManager;
+  public consoleParsers: ConsoleParsers = new ConsoleParsers();
+  public killFeed: KillFeed = new KillFeed();
+  // Where servers with `backfill` remember the last console line they processed
+  public checkpoints: ILogCheckpointStore = new FileCheckpointStore();
 
   public constructor() {
     this.events.on(RCEEvent.Error, (payload) => {
       if (payload.server) {
         this.logger.error(`[${payload.server.identifier}] ${payload.error}`);
+      } else if (payload.account) {
+        this.logger.error(`[${payload.account}] ${payload.error}`);
       } else {
         this.logger.error(payload.error);
       }
     });
+
+    this.events.on(RCEEvent.AuthRefreshed, (payload) => {
+      this._accounts.get(payload.account)?.socket.reauthenticate();
+    });
   }
 
   /**
    *
    * @param auth {AuthOptions} - The authentication options for the GPortal API
+   * @param logger {LoggerOptions} - The logger options
+   * @param options {AccountOptions} - The connection options, e.g. the WebSocket reconnect policy
    * @returns {Promise<void>}
    *
    * @example
@@ -80,21 +187,334 @@ export default class RCEManager {
    *  level: LogLevel.Info,
    *  file: "rce.log"
    * });
+   * ```
+   *
+   * @example
+   * ```js
+   * const rce = new RCEManager();
+   * await rce.init({
+   *  username: "username",
+   *  password: "password",
+   *  store: {
+   *    file: "rce.session.json",
+   *    key: process.env.RCE_SESSION_KEY
+   *  }
+   * });
+   * ```
+   *
+   * @example
+   * ```js
+   * const rce = new RCEManager();
+   * await rce.init({
+   *  tokenProvider: async () => {
+   *    const res = await fetch("https://broker.internal/gportal-token");
+   *    return res.json(); // { accessToken, expiresIn }
+   *  }
+   * });
+   * ```
+   *
+   * @example
+   * ```js
+   * const rce = new RCEManager();
+   * await rce.init({
+   *  username: "username",
+   *  password: "password"
+   * }, undefined, {
+   *  reconnect: {
+   *    maxAttempts: Infinity,
+   *    baseDelay: 1_000,
+   *    maxDelay: 60_000,
+   *    jitter: 0.5
+   *  }
+   * });
+   * ```
    */
-  public async init(auth: AuthOptions, logger: LoggerOptions) {
+  public async init(
+    auth: AuthOptions,
+    logger: LoggerOptions,
+    options?: AccountOptions
+  ) {
     this.logger =
       logger?.instance || new RCELogger(logger?.level, logger?.file);
 
-    const username = auth?.username || process.env.RCE_USERNAME || "";
-    const password = auth?.password || process.env.RCE_PASSWORD || "";
+    this.servers = new ServerManager(this);
+
+    this._initialization = this.addAccount(
+      DEFAULT_ACCOUNT,
+      {
+        ...auth,
+        username: auth?.username || process.env.RCE_USERNAME || "",
+        password: auth?.password || process.env.RCE_PASSWORD || "",
+      },
+      options
+    );
+    await this._initialization;
+  }
+
+  /**
+   *
+   * @param source {string | RCEConfig} - Path to a JSON or YAML config file, or the config itself
+   * @param options {object} - Set `watch` to reconcile the servers whenever the file changes, see `watchConfig`
+   * @returns {Promise<RCEManager>} - An initialized manager with every account, group and server from the config added
+   * @throws {Error} If the config is invalid, listing every problem found
+   * @description Strings may reference environment variables as `${NAME}` or `${NAME:-default}`. Without `auth`, `RCE_USERNAME` and `RCE_PASSWORD` are used
+   *
+   * @example
+   * ```js
+   * const rce = await RCEManager.fromConfig("./rce.config.yaml");
+   * ```
+   *
+   * @example
+   * ```js
+   * const rce = await RCEManager.fromConfig({
+   *  auth: { username: "${GPORTAL_USER}", password: "${GPORTAL_PASS}" },
+   *  logger: { level: "info" },
+   *  servers: [
+   *    { identifier: "eu-1", serverId: 1234567, region: "EU", intents: ["ALL"] }
+   *  ]
+   * });
+   * ```
+   */
+  public static async fromConfig(
+    source: string | RCEConfig,
+    options?: { watch?: boolean }
+  ) {
+    const config = await ConfigLoader.load(source);
+
+    const rce = new RCEManager();
+    await rce.init(config.auth ?? {}, config.logger, config.options);
 
-    this._auth = new GPortalAuth(this);
-    await this._auth.login(username, password);
+    for (const [name, account] of Object.entries(config.accounts ?? {})) {
+      await rce.addAccount(name, account.auth, account.options);
+    }
 
-    this._socket = new GPortalSocket(this, this._auth);
-    this._socket.connect();
+    Object.entries(config.groups ?? {}).forEach(([name, group]) =>
+      rce.servers.defineGroup(name, group)
+    );
+    await rce.servers.addMany(config.servers ?? []);
 
-    this.servers = new ServerManager(this, this._auth, this._socket);
+    if (options?.watch && typeof source === "string") {
+      rce.watchConfig(source);
+    }
+
+    return rce;
+  }
+
+  /**
+   *
+   * @param file {string} - The JSON or YAML config file to watch
+   * @param interval {number} - How often the file is checked for changes, in milliseconds
+   * @returns {void}
+   * @description Reconciles the servers and groups with the config file whenever it changes. Accounts, auth and the logger are only read at startup
+   *
+   * @example
+   * ```js
+   * const rce = await RCEManager.fromConfig("./rce.config.json");
+   * rce.watchConfig("./rce.config.json");
+   * ```
+   */
+  public watchConfig(file: string, interval: number = 1_000) {
+    this.unwatchConfig();
+
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+
+      clearTimeout(this._watcher.timeout);
+      this._watcher.timeout = setTimeout(() => this.reloadConfig(file), 250);
+    };
+
+    this._watcher = { file, listener };
+    watchFile(file, { interval }, listener);
+
+    this.logger.debug(`Watching Config: ${file}`);
+  }
+
+  /**
+   * Stop watching the config file
+   * @returns {void}
+   */
+  public unwatchConfig() {
+    if (!this._watcher) return;
+
+    clearTimeout(this._watcher.timeout);
+    unwatchFile(this._watcher.file, this._watcher.listener);
+    this._watcher = undefined;
+  }
+
+  private async reloadConfig(file: string) {
+    this.logger.info(`Reloading Config: ${file}`);
+
+    try {
+      const config = await ConfigLoader.load(file);
+      await this.servers.reconcile(config.servers ?? [], config.groups ?? {});
+    } catch (error) {
+      this.logger.error(`Failed To Reload Config: ${error.message}`);
+    }
+  }
+
+  /**
+   * Wait until authentication, every WebSocket connection and every initial subscription are live
+   * @returns {Promise<void>}
+   * @throws {Error} If a WebSocket is closed or gives up reconnecting first
+   *
+   * @example
+   * ```js
+   * const rce = new RCEManager();
+   * await rce.init({ username: "username", password: "password" });
+   * rce.servers.addMany([...]);
+   *
+   * await rce.ready();
+   * ```
+   */
+  public async ready() {
+    await this._initialization;
+    await this.servers?.ready();
+    await Promise.all(
+      Array.from(this._accounts.values()).map((account) =>
+        account.socket.ready()
+      )
+    );
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the account, referenced by `account` in the server options
+   * @param auth {AuthOptions} - The authentication options for the GPortal API
+   * @param options {AccountOptions} - The connection options for the account
+   * @returns {Promise<void>}
+   * @description Registers another G-Portal account with its own token refresh and WebSocket connection
+   *
+   * @example
+   * ```js
+   * await rce.addAccount("eu-account", {
+   *  username: "username",
+   *  password: "password"
+   * });
+   *
+   * await rce.servers.add({
+   *  identifier: "eu-server",
+   *  serverId: 1234567,
+   *  region: "EU",
+   *  account: "eu-account",
+   *  intents: [RCEIntent.All]
+   * });
+   * ```
+   */
+  public async addAccount(
+    name: string,
+    auth: AuthOptions,
+    options?: AccountOptions
+  ) {
+    if (this._accounts.has(name)) {
+      return this.logger.warn(`Account Is Already Registered: ${name}`);
+    }
+
+    this.logger.debug(`[${name}] Adding Account`);
+
+    const provider = this.createAuthProvider(name, auth);
+    await provider.init();
+
+    const socket = new GPortalSocket(this, provider, name, options);
+    provider.onRefresh?.(() => socket.reauthenticate());
+    this._accounts.set(name, {
+      name,
+      auth: provider,
+      socket,
+      rateLimit: options?.rateLimit,
+    });
+    socket.connect();
+
+    this.logger.debug(`[${name}] Account Added`);
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the account
+   * @returns {void}
+   * @description Removes an account along with every server attached to it
+   *
+   * @example
+   * ```js
+   * rce.removeAccount("eu-account");
+   * ```
+   */
+  public removeAccount(name: string) {
+    const account = this._accounts.get(name);
+    if (!account) {
+      return this.logger.warn(`Account Is Not Registered: ${name}`);
+    }
+
+    this.servers?.getAll().forEach((server) => {
+      if (server.account === name) {
+        this.servers.remove(server);
+      }
+    });
+
+    account.socket.close();
+    account.auth.destroy();
+    this._accounts.delete(name);
+
+    this.logger.info(`[${name}] Account Removed`);
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the account
+   * @returns {RCEAccount | undefined} - The account
+   *
+   * @example
+   * ```js
+   * const account = rce.getAccount("eu-account");
+   * ```
+   */
+  public getAccount(name: string = DEFAULT_ACCOUNT) {
+    return this._accounts.get(name);
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the account
+   * @returns {SocketStats | undefined} - The WebSocket connection statistics
+   *
+   * @example
+   * ```js
+   * const { latency, lastMessageAt, reconnects } = rce.socketStats();
+   * ```
+   */
+  public socketStats(name: string = DEFAULT_ACCOUNT) {
+    return this._accounts.get(name)?.socket.stats;
+  }
+
+  private createAuthProvider(
+    account: string,
+    auth: AuthOptions
+  ): IAuthProvider {
+    if (auth?.instance) {
+      return auth.instance;
+    }
+
+    if (auth?.tokenProvider) {
+      return new TokenProviderAuth(this, account, auth.tokenProvider);
+    }
+
+    const file =
+      auth?.store?.file ??
+      (account === DEFAULT_ACCOUNT ? undefined : `rce.session.${account}.json`);
+    const store = auth?.store
+      ? auth.store.instance || new FileAuthStore(file, auth.store.key)
+      : undefined;
+
+    return new GPortalAuth(
+      this,
+      account,
+      {
+        username: auth?.username,
+        password: auth?.password,
+        accessToken: auth?.accessToken,
+        refreshToken: auth?.refreshToken,
+      },
+      store
+    );
   }
 
   /**
@@ -108,9 +528,13 @@ export default class RCEManager {
    * ```
    */
   public destroy() {
-    this._socket.close();
-    this.servers.removeAll();
-    this._auth.destroy();
+    this.unwatchConfig();
+    this.servers?.destroy();
+    this._accounts.forEach((account) => {
+      account.socket.close();
+      account.auth.destroy();
+    });
+    this._accounts.clear();
     CommandHandler.destroy();
 
     this.logger.info("RCE.JS - Closed Gracefully");
@@ -1,14 +1,81 @@
-import type { GPortalAuthData } from './interfaces';
+import type {
+  GPortalAuthData,
+  GPortalCredentials,
+  IAuthProvider,
+  IAuthStore,
+  StoredAuthData,
+} from './interfaces';
 import type RCEManager from '../Manager';
-import { GPortalRoutes } from '../constants';
+import { GPortalRoutes, RCEEvent } from '../constants';
 
-export default class GPortalAuth {
+export default class GPortalAuth implements IAuthProvider {
   private _manager: RCEManager;
+  private _account: string;
+  private _credentials: GPortalCredentials;
+  private _store?: IAuthStore;
+  private _username: string;
+  private _password: string;
   private _authData: GPortalAuthData;
   private _refreshTimeout: NodeJS.Timeout;
+  private _reloginAttempts: number = 0;
+  private _destroyed: boolean = false;
 
-  public constructor(manager: RCEManager) {
+  public constructor(
+    manager: RCEManager,
+    account: string,
+    credentials: GPortalCredentials,
+    store?: IAuthStore
+  ) {
     this._manager = manager;
+    this._account = account;
+    this._credentials = credentials;
+    this._store = store;
+  }
+
+  /**
+   * Authenticate with the configured credentials or pre-issued tokens
+   * @returns {void}
+   * @throws {Error} If the login fails
+   * @remarks A saved session is restored first, then a refresh token is exchanged straight away, the credentials are only used when it is rejected.
+   */
+  public async init() {
+    const { username, password, accessToken, refreshToken } = this._credentials;
+
+    if (!refreshToken && !accessToken) {
+      return this.login(username, password);
+    }
+
+    this._username = username;
+    this._password = password;
+
+    // A saved session is newer than the supplied tokens once they have been refreshed
+    if (await this.restore()) return;
+
+    this._authData = {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: 0,
+    };
+
+    if (!refreshToken) {
+      return this._manager.logger.warn(
+        'Using A Static Access Token - It Will Not Be Refreshed'
+      );
+    }
+
+    try {
+      await this.refresh();
+    } catch (error) {
+      if (!username || !password) {
+        throw new Error(`Failed To Login: ${error.message}`);
+      }
+
+      this._manager.logger.warn(
+        'Refresh Token Rejected - Logging In With Credentials'
+      );
+      await this.authenticate();
+    }
   }
 
   /**
@@ -18,8 +85,25 @@ export default class GPortalAuth {
    *
    * @returns {void}
    * @throws {Error} If the login fails
+   * @remarks A saved session is reused when a store is configured, the full login only runs when its refresh token is rejected.
    */
   public async login(username: string, password: string) {
+    this._username = username;
+    this._password = password;
+    if (await this.restore()) return;
+
+    await this.authenticate();
+  }
+
+  /**
+   * Run the full OIDC login with the stored credentials
+   * @returns {void}
+   * @throws {Error} If the login fails
+   */
+  private async authenticate() {
+    const username = this._username;
+    const password = this._password;
+
     this._manager.logger.debug('Logging In To G-Portal');
 
     try {
@@ -98,12 +182,7 @@ export default class GPortalAuth {
         throw new Error('Failed To Fetch The Authentication Token');
       }
 
-      this._authData = await tokenResponse.json();
-
-      this._refreshTimeout = setTimeout(
-        () => this.refresh(),
-        (this._authData.expires_in - 60) * 1_000
-      );
+      await this.setAuthData(await tokenResponse.json());
     } catch (error) {
       throw new Error(`Failed To Login: ${error.message}`);
     }
@@ -135,15 +214,12 @@ export default class GPortalAuth {
       });
 
       if (!tokenResponse.ok) {
-        throw new Error('Failed to fetch the authentication token');
+        throw new Error(
+          `Failed to fetch the authentication token (HTTP ${tokenResponse.status})`
+        );
       }
 
-      this._authData = await tokenResponse.json();
-
-      this._refreshTimeout = setTimeout(
-        () => this.refresh(),
-        (this._authData.expires_in - 60) * 1_000
-      );
+      await this.setAuthData(await tokenResponse.json());
 
       this._manager.logger.debug('Token Refreshed');
     } catch (error) {
@@ -151,7 +227,158 @@ export default class GPortalAuth {
     }
   }
 
+  /**
+   * Refresh the token, retrying with backoff before falling back to a full re-login
+   * @returns {void}
+   * @remarks Never throws, failures are reported through the AUTH_FAILED event and retried.
+   */
+  private async renew() {
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      if (this._destroyed) return;
+
+      try {
+        await this.refresh();
+
+        this._manager.events.emit(RCEEvent.AuthRefreshed, {
+          account: this._account,
+          relogin: false,
+          expiresIn: this._authData.expires_in,
+        });
+        return;
+      } catch (error) {
+        this._manager.logger.warn(`${error.message} (Attempt ${attempt})`);
+        this._manager.events.emit(RCEEvent.AuthFailed, {
+          account: this._account,
+          error: error.message,
+          stage: 'refresh',
+          attempt,
+        });
+
+        if (attempt < 3) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, 5_000 * 2 ** (attempt - 1))
+          );
+        }
+      }
+    }
+
+    if (this._destroyed) return;
+
+    if (!this._username || !this._password) {
+      this._manager.logger.error(
+        'Token Refresh Failed - No Credentials To Log In Again, Retrying In 60 Seconds'
+      );
+      this._refreshTimeout = setTimeout(() => this.renew(), 60_000);
+      return;
+    }
+
+    this._manager.logger.warn('Token Refresh Failed - Logging In Again');
+    this._manager.events.emit(RCEEvent.AuthRelogin, {
+      account: this._account,
+      reason: 'Token Refresh Failed',
+    });
+
+    try {
+      await this.authenticate();
+
+      this._reloginAttempts = 0;
+      this._manager.logger.info('RCE.JS - Logged In Again');
+      this._manager.events.emit(RCEEvent.AuthRefreshed, {
+        account: this._account,
+        relogin: true,
+        expiresIn: this._authData.expires_in,
+      });
+    } catch (error) {
+      this._reloginAttempts++;
+      this._manager.logger.error(`${error.message} - Retrying In 60 Seconds`);
+      this._manager.events.emit(RCEEvent.AuthFailed, {
+        account: this._account,
+        error: error.message,
+        stage: 'relogin',
+        attempt: this._reloginAttempts,
+      });
+
+      if (!this._destroyed) {
+        this._refreshTimeout = setTimeout(() => this.renew(), 60_000);
+      }
+    }
+  }
+
+  /**
+   * Restore the session saved in the store
+   * @returns {boolean} Whether the saved session could be reused
+   */
+  private async restore() {
+    if (!this._store) return false;
+
+    let stored: StoredAuthData;
+    try {
+      stored = await this._store.get();
+    } catch (error) {
+      this._manager.logger.warn(
+        `Failed To Read The Saved Session: ${error.message}`
+      );
+      return false;
+    }
+
+    if (!stored?.refresh_token || stored.username !== this._username) {
+      return false;
+    }
+
+    if (stored.refresh_expires_at && stored.refresh_expires_at <= Date.now()) {
+      this._manager.logger.debug('Saved Session Has Expired');
+      return false;
+    }
+
+    this._manager.logger.debug('Restoring The Saved Session');
+
+    this._authData = stored;
+    try {
+      await this.refresh();
+      this._manager.logger.debug('Saved Session Restored');
+      return true;
+    } catch (error) {
+      this._manager.logger.warn(
+        `Saved Session Rejected, Logging In Again: ${error.message}`
+      );
+
+      this._authData = undefined;
+      await this._store.clear().catch(() => {});
+      return false;
+    }
+  }
+
+  private async setAuthData(data: GPortalAuthData) {
+    this._authData = data;
+
+    clearTimeout(this._refreshTimeout);
+    this._refreshTimeout = setTimeout(
+      () => this.renew(),
+      (this._authData.expires_in - 60) * 1_000
+    );
+
+    if (this._store) {
+      const now = Date.now();
+
+      try {
+        await this._store.set({
+          ...data,
+          username: this._username,
+          expires_at: now + data.expires_in * 1_000,
+          refresh_expires_at: data.refresh_expires_in
+            ? now + data.refresh_expires_in * 1_000
+            : undefined,
+        });
+      } catch (error) {
+        this._manager.logger.warn(
+          `Failed To Save The Session: ${error.message}`
+        );
+      }
+    }
+  }
+
   public destroy() {
+    this._destroyed = true;
     clearTimeout(this._refreshTimeout);
   }
 
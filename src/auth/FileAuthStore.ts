@@ -0,0 +1,105 @@
+import type { IAuthStore, StoredAuthData } from "./interfaces";
+import { readFile, writeFile, rm } from "fs/promises";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+
+interface EncryptedPayload {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export default class FileAuthStore implements IAuthStore {
+  private file: string;
+  private key?: Buffer;
+
+  /**
+   *
+   * @param file {string} - The file the session is saved to
+   * @param key {string} - Optional secret used to encrypt the saved session
+   */
+  constructor(file: string = "rce.session.json", key?: string) {
+    this.file = file;
+    this.key = key ? createHash("sha256").update(key).digest() : undefined;
+  }
+
+  /**
+   * @returns {Promise<StoredAuthData | null>} - The saved session, if any
+   * @throws {Error} If the file exists but cannot be decrypted or parsed
+   */
+  public async get(): Promise<StoredAuthData | null> {
+    let content: string;
+
+    try {
+      content = await readFile(this.file, "utf-8");
+    } catch (error) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+
+    if (!content.trim()) return null;
+
+    const data = JSON.parse(content);
+    if (!this.key) {
+      return data as StoredAuthData;
+    }
+
+    return JSON.parse(this.decrypt(data as EncryptedPayload));
+  }
+
+  /**
+   * @param data {StoredAuthData} - The session to save
+   * @returns {Promise<void>}
+   */
+  public async set(data: StoredAuthData) {
+    const content = this.key
+      ? JSON.stringify(this.encrypt(JSON.stringify(data)))
+      : JSON.stringify(data);
+
+    await writeFile(this.file, content, { encoding: "utf-8", mode: 0o600 });
+  }
+
+  /**
+   * @returns {Promise<void>}
+   */
+  public async clear() {
+    await rm(this.file, { force: true });
+  }
+
+  private encrypt(content: string): EncryptedPayload {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([
+      cipher.update(content, "utf-8"),
+      cipher.final(),
+    ]);
+
+    return {
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+  }
+
+  private decrypt(payload: EncryptedPayload): string {
+    if (!payload?.iv || !payload?.tag || !payload?.data) {
+      throw new Error("Saved Session Is Not Encrypted");
+    }
+
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.key,
+      Buffer.from(payload.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(payload.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  }
+}
@@ -0,0 +1,108 @@
+import type { AuthTokens, IAuthProvider } from "./interfaces";
+import type RCEManager from "../Manager";
+import { RCEEvent } from "../constants";
+
+export default class TokenProviderAuth implements IAuthProvider {
+  private _manager: RCEManager;
+  private _account: string;
+  private _provider: () => Promise<AuthTokens>;
+  private _tokens: AuthTokens;
+  private _refreshTimeout: NodeJS.Timeout;
+  private _destroyed: boolean = false;
+
+  /**
+   *
+   * @param manager {RCEManager} - The RCE Manager
+   * @param account {string} - The name of the account the token belongs to
+   * @param provider {Function} - Fetches a fresh access token, e.g. from a token broker
+   */
+  public constructor(
+    manager: RCEManager,
+    account: string,
+    provider: () => Promise<AuthTokens>
+  ) {
+    this._manager = manager;
+    this._account = account;
+    this._provider = provider;
+  }
+
+  /**
+   * Fetch the first access token from the provider
+   * @returns {void}
+   * @throws {Error} If the provider fails
+   */
+  public async init() {
+    this._manager.logger.debug("Fetching Access Token From Provider");
+
+    try {
+      await this.fetchTokens();
+    } catch (error) {
+      throw new Error(`Failed To Login: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch a new token, retrying with backoff when the provider fails
+   * @returns {void}
+   */
+  private async renew() {
+    for (let attempt = 1; !this._destroyed; attempt++) {
+      try {
+        await this.fetchTokens();
+
+        this._manager.logger.debug("Token Refreshed");
+        this._manager.events.emit(RCEEvent.AuthRefreshed, {
+          account: this._account,
+          relogin: false,
+          expiresIn: this._tokens.expiresIn ?? 300,
+        });
+        return;
+      } catch (error) {
+        this._manager.logger.warn(
+          `Failed To Fetch Token From Provider: ${error.message} (Attempt ${attempt})`
+        );
+        this._manager.events.emit(RCEEvent.AuthFailed, {
+          account: this._account,
+          error: error.message,
+          stage: "refresh",
+          attempt,
+        });
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.min(5_000 * 2 ** (attempt - 1), 60_000))
+        );
+      }
+    }
+  }
+
+  private async fetchTokens() {
+    const tokens = await this._provider();
+    if (!tokens?.accessToken) {
+      throw new Error("Provider Returned No Access Token");
+    }
+
+    this._tokens = tokens;
+
+    clearTimeout(this._refreshTimeout);
+    if (!this._destroyed) {
+      this._refreshTimeout = setTimeout(
+        () => this.renew(),
+        Math.max((tokens.expiresIn ?? 300) - 60, 30) * 1_000
+      );
+    }
+  }
+
+  public destroy() {
+    this._destroyed = true;
+    clearTimeout(this._refreshTimeout);
+  }
+
+  /**
+   * Get the access token
+   * @returns {string} The access token
+   * @returns {undefined} If the access token is not available
+   */
+  get accessToken() {
+    return this._tokens?.accessToken;
+  }
+}
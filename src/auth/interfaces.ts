@@ -3,4 +3,37 @@ export interface GPortalAuthData {
   refresh_token: string;
   token_type: "Bearer";
   expires_in: number;
+  refresh_expires_in?: number;
+}
+
+export interface StoredAuthData extends GPortalAuthData {
+  username: string;
+  expires_at: number;
+  refresh_expires_at?: number;
+}
+
+export interface IAuthStore {
+  get: () => Promise<StoredAuthData | null>;
+  set: (data: StoredAuthData) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface GPortalCredentials {
+  username?: string;
+  password?: string;
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  expiresIn?: number;
+}
+
+export interface IAuthProvider {
+  readonly accessToken: string | undefined;
+  init: () => Promise<void>;
+  destroy: () => void;
+  // Lets the WebSocket pick up a rotated token, the built-in providers emit AUTH_REFRESHED instead
+  onRefresh?: (listener: () => void) => void;
 }
@@ -0,0 +1,374 @@
+import type { ConfigSchema, RCEConfig } from "./interfaces";
+import { LogLevel, RCEIntent } from "../constants";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import YAMLParser from "./YAMLParser";
+
+const NUMBER: ConfigSchema = { type: "number" };
+const STRING: ConfigSchema = { type: "string" };
+const BOOLEAN: ConfigSchema = { type: "boolean" };
+
+const RATE_LIMIT: ConfigSchema = {
+  type: "object",
+  properties: { capacity: NUMBER, refillRate: NUMBER },
+};
+
+const ACCOUNT_OPTIONS: ConfigSchema = {
+  type: "object",
+  properties: {
+    reconnect: {
+      type: "object",
+      properties: {
+        maxAttempts: NUMBER,
+        baseDelay: NUMBER,
+        maxDelay: NUMBER,
+        jitter: NUMBER,
+      },
+    },
+    heartbeat: {
+      type: "object",
+      properties: { interval: NUMBER, timeout: NUMBER },
+    },
+    rateLimit: RATE_LIMIT,
+  },
+};
+
+const AUTH: ConfigSchema = {
+  type: "object",
+  properties: {
+    username: STRING,
+    password: STRING,
+    accessToken: STRING,
+    refreshToken: STRING,
+    store: {
+      type: "object",
+      properties: { file: STRING, key: STRING },
+    },
+  },
+};
+
+const SERVER_DEFAULTS: { [key: string]: ConfigSchema } = {
+  account: STRING,
+  tags: { type: "array", items: STRING },
+  timezone: STRING,
+  backfill: BOOLEAN,
+  playerRefreshing: BOOLEAN,
+  radioRefreshing: BOOLEAN,
+  extendedEventRefreshing: BOOLEAN,
+  refreshIntervals: { type: "object", values: NUMBER },
+  pollers: { type: "array", items: STRING },
+  intents: {
+    type: "array",
+    items: { type: "enum", values: Object.values(RCEIntent) },
+  },
+  silent: BOOLEAN,
+  rateLimit: RATE_LIMIT,
+};
+
+const SCHEMA: ConfigSchema = {
+  type: "object",
+  properties: {
+    auth: AUTH,
+    logger: {
+      type: "object",
+      properties: {
+        level: {
+          type: "enum",
+          values: Object.values(LogLevel).filter((v) => typeof v === "number"),
+        },
+        file: STRING,
+      },
+    },
+    options: ACCOUNT_OPTIONS,
+    accounts: {
+      type: "object",
+      values: {
+        type: "object",
+        properties: {
+          auth: { ...AUTH, required: true },
+          options: ACCOUNT_OPTIONS,
+        },
+      },
+    },
+    groups: {
+      type: "object",
+      values: { type: "object", properties: SERVER_DEFAULTS },
+    },
+    servers: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          ...SERVER_DEFAULTS,
+          identifier: { ...STRING, required: true },
+          serverId: {
+            type: "union",
+            of: [NUMBER, { type: "array", items: NUMBER }],
+            required: true,
+          },
+          region: { type: "enum", values: ["EU", "US"], required: true },
+          group: STRING,
+          state: { type: "array", items: { type: "any" } },
+        },
+      },
+    },
+  },
+};
+
+export default class ConfigLoader {
+  /**
+   *
+   * @param source {string | RCEConfig} - Path to a JSON or YAML config file, or the config itself
+   * @returns {Promise<RCEConfig>} - The validated config with `${ENV}` variables expanded
+   * @throws {Error} If the file cannot be read or parsed, or the config is invalid
+   */
+  public static async load(source: string | RCEConfig): Promise<RCEConfig> {
+    const raw =
+      typeof source === "string"
+        ? this.parse(await readFile(source, "utf-8"), source)
+        : source;
+
+    const errors: string[] = [];
+    const config = this.normalize(this.expand(raw, SCHEMA, "config", errors));
+    this.validate(config, SCHEMA, "config", errors);
+
+    if (errors.length) {
+      throw new Error(
+        `Invalid Config:\n${errors.map((error) => `  - ${error}`).join("\n")}`
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   *
+   * @param content {string} - The file content
+   * @param file {string} - The file name, `.yaml`/`.yml` files are parsed as YAML
+   * @returns {any} - The parsed config
+   */
+  public static parse(content: string, file: string = ""): any {
+    const extension = extname(file).toLowerCase();
+    if (extension === ".yaml" || extension === ".yml") {
+      return YAMLParser.parse(content);
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      if (extension === ".json") {
+        throw new Error(`Invalid JSON In ${file}: ${error.message}`);
+      }
+
+      return YAMLParser.parse(content);
+    }
+  }
+
+  /**
+   * Replaces `${NAME}` and `${NAME:-default}` in every string with the environment variable, expanded values are converted to the number or boolean the schema expects
+   */
+  private static expand(
+    value: any,
+    schema: ConfigSchema | undefined,
+    path: string,
+    errors: string[]
+  ): any {
+    if (typeof value === "string") {
+      const expanded = value.replace(
+        /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+        (match, name, fallback) => {
+          const env = process.env[name];
+          if (env !== undefined && env !== "") return env;
+          if (fallback !== undefined) return fallback;
+
+          errors.push(`${path}: Environment Variable ${name} Is Not Set`);
+          return "";
+        }
+      );
+
+      return expanded === value ? value : this.coerce(expanded, schema);
+    }
+
+    const options = schema?.type === "union" ? schema.of : [schema];
+
+    if (Array.isArray(value)) {
+      const items = options.find((option) => option?.type === "array");
+      return value.map((item, i) =>
+        this.expand(
+          item,
+          items?.type === "array" ? items.items : undefined,
+          `${path}[${i}]`,
+          errors
+        )
+      );
+    }
+
+    if (value && typeof value === "object") {
+      const object = options.find((option) => option?.type === "object");
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.expand(
+            item,
+            object?.type === "object"
+              ? object.properties?.[key] ?? object.values
+              : undefined,
+            `${path}.${key}`,
+            errors
+          ),
+        ])
+      );
+    }
+
+    return value;
+  }
+
+  private static coerce(value: string, schema: ConfigSchema | undefined) {
+    const options = schema?.type === "union" ? schema.of : [schema];
+    const number = value.trim() === "" ? NaN : Number(value);
+
+    for (const option of options) {
+      if (option?.type === "number" && Number.isFinite(number)) return number;
+      if (option?.type === "enum" && option.values.includes(number)) {
+        return number;
+      }
+      if (option?.type === "boolean" && ["true", "false"].includes(value)) {
+        return value === "true";
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Accepts enum names where values are expected, e.g. "ConsoleMessages" or "debug"
+   */
+  private static normalize(config: any): RCEConfig {
+    if (!config || typeof config !== "object") return config;
+
+    const intent = (value: any) =>
+      Object.entries(RCEIntent).find(
+        ([key, intent]) =>
+          typeof value === "string" &&
+          [key.toLowerCase(), intent.toLowerCase()].includes(
+            value.toLowerCase()
+          )
+      )?.[1] ?? value;
+
+    const intents = (options: any) => {
+      if (Array.isArray(options?.intents)) {
+        options.intents = options.intents.map(intent);
+      }
+    };
+
+    if (Array.isArray(config.servers)) config.servers.forEach(intents);
+    if (config.groups && typeof config.groups === "object") {
+      Object.values(config.groups).forEach(intents);
+    }
+
+    const level = config.logger?.level;
+    if (typeof level === "string") {
+      const match = Object.keys(LogLevel).find(
+        (key) => key.toLowerCase() === level.toLowerCase()
+      );
+      if (match) config.logger.level = LogLevel[match];
+    }
+
+    return config;
+  }
+
+  private static validate(
+    value: any,
+    schema: ConfigSchema,
+    path: string,
+    errors: string[]
+  ) {
+    switch (schema.type) {
+      case "any":
+        return;
+      case "string":
+      case "number":
+      case "boolean":
+        if (typeof value !== schema.type) {
+          errors.push(
+            `${path}: Expected A ${this.label(
+              schema
+            )}, Received ${this.describe(value)}`
+          );
+        }
+        return;
+      case "enum":
+        if (!schema.values.includes(value)) {
+          errors.push(
+            `${path}: Expected One Of ${schema.values
+              .map((v) => JSON.stringify(v))
+              .join(", ")}, Received ${this.describe(value)}`
+          );
+        }
+        return;
+      case "union": {
+        const valid = schema.of.some((option) => {
+          const nested: string[] = [];
+          this.validate(value, option, path, nested);
+          return !nested.length;
+        });
+        if (!valid) {
+          errors.push(
+            `${path}: Expected A ${schema.of
+              .map((option) => this.label(option))
+              .join(" Or ")}, Received ${this.describe(value)}`
+          );
+        }
+        return;
+      }
+      case "array":
+        if (!Array.isArray(value)) {
+          errors.push(
+            `${path}: Expected A List, Received ${this.describe(value)}`
+          );
+          return;
+        }
+        value.forEach((item, i) =>
+          this.validate(item, schema.items, `${path}[${i}]`, errors)
+        );
+        return;
+      case "object": {
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+          errors.push(
+            `${path}: Expected An Object, Received ${this.describe(value)}`
+          );
+          return;
+        }
+
+        Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+          if (property.required && value[key] === undefined) {
+            errors.push(`${path}.${key}: Is Required`);
+          }
+        });
+
+        Object.entries(value).forEach(([key, item]) => {
+          const property = schema.properties?.[key] ?? schema.values;
+          if (!property) {
+            errors.push(`${path}.${key}: Unknown Option`);
+          } else if (item !== undefined && item !== null) {
+            this.validate(item, property, `${path}.${key}`, errors);
+          }
+        });
+      }
+    }
+  }
+
+  private static label(schema: ConfigSchema) {
+    const labels = { array: "List", union: "Value", any: "Value" };
+    return (
+      labels[schema.type] ??
+      schema.type.charAt(0).toUpperCase() + schema.type.slice(1)
+    );
+  }
+
+  private static describe(value: any) {
+    if (value === null || value === undefined) return "nothing";
+    if (Array.isArray(value)) return "a list";
+    return `${typeof value} ${JSON.stringify(value)}`;
+  }
+}
@@ -0,0 +1,222 @@
+interface YAMLLine {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+/**
+ * Parses the subset of YAML used by config files: nested maps, lists,
+ * inline [flow, lists], quoted strings, numbers, booleans and comments.
+ * Anchors, multi-line strings and multiple documents are not supported.
+ */
+export default class YAMLParser {
+  private lines: YAMLLine[];
+  private index: number = 0;
+
+  private constructor(content: string) {
+    this.lines = content
+      .split(/\r?\n/)
+      .map((line, i) => ({
+        number: i + 1,
+        indent: line.length - line.trimStart().length,
+        text: YAMLParser.stripComment(line).trim(),
+      }))
+      .filter((line) => line.text && line.text !== "---");
+  }
+
+  /**
+   *
+   * @param content {string} - The YAML document
+   * @returns {any} - The parsed document
+   * @throws {Error} If the document uses unsupported or invalid syntax
+   */
+  public static parse(content: string): any {
+    const parser = new YAMLParser(content);
+    if (!parser.lines.length) return null;
+
+    const value = parser.parseBlock(parser.lines[0].indent);
+    if (parser.current) {
+      parser.fail("Unexpected Indentation");
+    }
+
+    return value;
+  }
+
+  private get current() {
+    return this.lines[this.index];
+  }
+
+  private parseBlock(indent: number): any {
+    return this.isListItem(this.current)
+      ? this.parseList(indent)
+      : this.parseMap(indent);
+  }
+
+  private parseMap(indent: number) {
+    const map: { [key: string]: any } = {};
+
+    while (
+      this.current &&
+      this.current.indent === indent &&
+      !this.isListItem(this.current)
+    ) {
+      const line = this.current;
+      const match = line.text.match(
+        /^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/
+      );
+      if (!match) this.fail("Expected A Key");
+
+      const key = YAMLParser.parseScalar(match[1]);
+      this.index++;
+
+      if (match[2] !== undefined && match[2] !== "") {
+        map[key] = YAMLParser.parseValue(match[2]);
+      } else if (this.current && this.current.indent > indent) {
+        map[key] = this.parseBlock(this.current.indent);
+      } else if (
+        this.current &&
+        this.current.indent === indent &&
+        this.isListItem(this.current)
+      ) {
+        map[key] = this.parseList(indent);
+      } else {
+        map[key] = null;
+      }
+    }
+
+    return map;
+  }
+
+  private parseList(indent: number) {
+    const list: any[] = [];
+
+    while (
+      this.current &&
+      this.current.indent === indent &&
+      this.isListItem(this.current)
+    ) {
+      const line = this.current;
+      const content = line.text.slice(1).trim();
+
+      if (!content) {
+        this.index++;
+        list.push(
+          this.current && this.current.indent > indent
+            ? this.parseBlock(this.current.indent)
+            : null
+        );
+      } else if (/^("[^"]*"|'[^']*'|[^:"'[{]+?)\s*:(\s|$)/.test(content)) {
+        // "- key: value" starts a map indented to where the key begins
+        const offset = line.text.length - content.length;
+        this.lines[this.index] = {
+          ...line,
+          indent: indent + offset,
+          text: content,
+        };
+        list.push(this.parseMap(indent + offset));
+      } else {
+        this.index++;
+        list.push(YAMLParser.parseValue(content));
+      }
+    }
+
+    return list;
+  }
+
+  private isListItem(line: YAMLLine) {
+    return line?.text === "-" || line?.text.startsWith("- ");
+  }
+
+  private fail(reason: string): never {
+    const line = this.current;
+    throw new Error(
+      line
+        ? `Invalid YAML At Line ${line.number}: ${reason} (${line.text})`
+        : `Invalid YAML: ${reason}`
+    );
+  }
+
+  private static parseValue(value: string): any {
+    if (value.startsWith("[") && value.endsWith("]")) {
+      return this.splitFlow(value.slice(1, -1)).map((item) =>
+        this.parseValue(item)
+      );
+    }
+
+    if (value.startsWith("{") && value.endsWith("}")) {
+      return Object.fromEntries(
+        this.splitFlow(value.slice(1, -1)).map((entry) => {
+          const [, key, item] = entry.match(/^([^:]+?)\s*:\s*(.*)$/) ?? [];
+          if (key === undefined) {
+            throw new Error(`Invalid YAML: Expected A Key In ${value}`);
+          }
+
+          return [this.parseScalar(key), this.parseValue(item)];
+        })
+      );
+    }
+
+    return this.parseScalar(value);
+  }
+
+  private static parseScalar(value: string): any {
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      return JSON.parse(value);
+    }
+
+    if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+
+    if (value === "true" || value === "false") return value === "true";
+    if (value === "null" || value === "~") return null;
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+    return value;
+  }
+
+  private static splitFlow(content: string) {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string;
+    let current = "";
+
+    for (const char of content) {
+      if (quote) {
+        if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "[" || char === "{") {
+        depth++;
+      } else if (char === "]" || char === "}") {
+        depth--;
+      } else if (char === "," && !depth) {
+        items.push(current.trim());
+        current = "";
+        continue;
+      }
+
+      current += char;
+    }
+
+    if (current.trim()) items.push(current.trim());
+    return items;
+  }
+
+  private static stripComment(line: string) {
+    let quote: string;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote) {
+        if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+        return line.slice(0, i);
+      }
+    }
+
+    return line;
+  }
+}
@@ -0,0 +1,42 @@
+import type {
+  AccountOptions,
+  AuthStoreOptions,
+  LoggerOptions,
+} from "../interfaces";
+import type { ServerGroupOptions, ServerOptions } from "../servers/interfaces";
+
+export interface RCEConfig {
+  auth?: AuthConfig;
+  logger?: LoggerConfig;
+  options?: AccountOptions;
+  accounts?: { [name: string]: AccountConfig };
+  groups?: { [name: string]: ServerGroupOptions };
+  servers?: ServerOptions[];
+}
+
+export interface AuthConfig {
+  username?: string;
+  password?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  store?: Omit<AuthStoreOptions, "instance">;
+}
+
+// Level names such as "debug" are also accepted in files, they are normalized to a LogLevel
+export type LoggerConfig = Omit<LoggerOptions, "instance">;
+
+export interface AccountConfig {
+  auth: AuthConfig;
+  options?: AccountOptions;
+}
+
+export type ConfigSchema =
+  | { type: "string" | "number" | "boolean" | "any" }
+  | { type: "enum"; values: (string | number)[] }
+  | { type: "array"; items: ConfigSchema }
+  | { type: "union"; of: ConfigSchema[] }
+  | {
+      type: "object";
+      properties?: { [key: string]: ConfigSchema & { required?: boolean } };
+      values?: ConfigSchema;
+    };
@@ -7,6 +7,8 @@ export enum GPortalRoutes {
   Auth = "https://auth.g-portal.com/auth/realms/master/protocol/openid-connect/auth",
 }
 
+export const DEFAULT_ACCOUNT = "default";
+
 export enum PlayerKillType {
   Natural = "Natural",
   Entity = "Entity",
@@ -14,6 +16,13 @@ export enum PlayerKillType {
   Npc = "Npc",
 }
 
+export enum KillCategory {
+  PvP = "PVP", // A player killed a player
+  PvE = "PVE", // A player killed an NPC, animal or entity
+  NpcOnPlayer = "NPC_ON_PLAYER",
+  Environmental = "ENVIRONMENTAL", // Traps, cold, falls, cacti and so on
+}
+
 export const playerKillData = [
   {
     id: "thirst",
@@ -321,10 +330,12 @@ export enum RCEEvent {
   Message = "MESSAGE",
   ServerReady = "SERVER_READY",
   ServiceStatus = "SERVICE_STATUS",
+  ServiceProgress = "SERVICE_PROGRESS",
   ServiceSensor = "SERVICE_SENSOR",
   ExecutingCommand = "EXECUTING_COMMAND",
   VendingMachineName = "VENDING_MACHINE_NAME",
   QuickChat = "QUICK_CHAT",
+  PlayerChat = "PLAYER_CHAT",
   PlayerSuicide = "PLAYER_SUICIDE",
   PlayerRespawned = "PLAYER_RESPAWNED",
   CustomZoneCreated = "CUSTOM_ZONE_CREATED",
@@ -349,6 +360,13 @@ export enum RCEEvent {
   PlayerListUpdated = "PLAYER_LIST_UPDATED",
   FrequencyGained = "FREQUENCY_GAINED",
   FrequencyLost = "FREQUENCY_LOST",
+  AuthRefreshed = "AUTH_REFRESHED",
+  AuthFailed = "AUTH_FAILED",
+  AuthRelogin = "AUTH_RELOGIN",
+  SocketConnecting = "SOCKET_CONNECTING",
+  SocketConnected = "SOCKET_CONNECTED",
+  SocketDisconnected = "SOCKET_DISCONNECTED",
+  SocketGaveUp = "SOCKET_GAVE_UP",
   Error = "ERROR",
 }
 
@@ -427,6 +445,81 @@ export enum QuickChat {
   HAVE_HighQualityMetal = "d11_quick_chat_i_have_phrase_format metal.refined",
 }
 
+export const quickChatPhrases: { [message: string]: string } = {
+  [QuickChat.COMBAT_WereUnderAttack]: "We're under attack!",
+  [QuickChat.COMBAT_Retreat]: "Retreat!",
+  [QuickChat.COMBAT_MoveOut]: "Move out!",
+  [QuickChat.COMBAT_DontShoot]: "Don't shoot!",
+  [QuickChat.COMBAT_BeCareful]: "Be careful!",
+  [QuickChat.COMBAT_TheyreBetterArmed]: "They're better armed!",
+  [QuickChat.COMBAT_ImOutOfAmmo]: "I'm out of ammo!",
+  [QuickChat.COMBAT_ImHurt]: "I'm hurt!",
+  [QuickChat.BUILDING_UpgradeWalls]: "Upgrade the walls!",
+  [QuickChat.BUILDING_NeedBeds]: "We need beds!",
+  [QuickChat.BUILDING_NeedBuildingPermission]: "I need building permission",
+  [QuickChat.BUILDING_WhatsDoorCode]: "What's the door code?",
+  [QuickChat.BUILDING_CanIHaveKey]: "Can I have a key?",
+  [QuickChat.BUILDING_NeedBetterDoor]: "We need a better door",
+  [QuickChat.BUILDING_UpkeepRunningLow]: "Upkeep is running low",
+  [QuickChat.BUILDING_WhichChestFreeGame]: "Which chest is free game?",
+  [QuickChat.QUESTIONS_AreYouFriendly]: "Are you friendly?",
+  [QuickChat.QUESTIONS_CanIBuildAroundHere]: "Can I build around here?",
+  [QuickChat.QUESTIONS_DoYouWantToTeamUp]: "Do you want to team up?",
+  [QuickChat.QUESTIONS_DoYouNeedAnything]: "Do you need anything?",
+  [QuickChat.QUESTIONS_CouldYouHelpMe]: "Could you help me?",
+  [QuickChat.QUESTIONS_WantToTrade]: "Want to trade?",
+  [QuickChat.QUESTIONS_WhosThere]: "Who's there?",
+  [QuickChat.QUESTIONS_CanIEnter]: "Can I enter?",
+  [QuickChat.RESPONSES_Yes]: "Yes",
+  [QuickChat.RESPONSES_No]: "No",
+  [QuickChat.RESPONSES_OK]: "OK",
+  [QuickChat.RESPONSES_ThankYou]: "Thank you",
+  [QuickChat.RESPONSES_NoProblem]: "No problem",
+  [QuickChat.RESPONSES_Hello]: "Hello",
+  [QuickChat.RESPONSES_Goodbye]: "Goodbye",
+  [QuickChat.RESPONSES_ImSorry]: "I'm sorry",
+  [QuickChat.ORDERS_FollowMe]: "Follow me",
+  [QuickChat.ORDERS_GoAway]: "Go away",
+  [QuickChat.ORDERS_RepairThis]: "Repair this",
+  [QuickChat.ORDERS_WaitHere]: "Wait here",
+  [QuickChat.ORDERS_ComeIn]: "Come in",
+  [QuickChat.ORDERS_LetsGo]: "Let's go",
+  [QuickChat.ORDERS_HereTakeThis]: "Here, take this",
+  [QuickChat.ORDERS_HurryUp]: "Hurry up",
+  [QuickChat.LOCATION_North]: "North",
+  [QuickChat.LOCATION_NorthEast]: "North East",
+  [QuickChat.LOCATION_East]: "East",
+  [QuickChat.LOCATION_SouthEast]: "South East",
+  [QuickChat.LOCATION_South]: "South",
+  [QuickChat.LOCATION_SouthWest]: "South West",
+  [QuickChat.LOCATION_West]: "West",
+  [QuickChat.LOCATION_NorthWest]: "North West",
+};
+
+// "*_phrase_format <item>" messages, {item} is replaced with the item name
+export const quickChatFormats: { [format: string]: string } = {
+  d11_quick_chat_activities_phrase_format: "Going for {item}",
+  d11_quick_chat_i_need_phrase_format: "I need {item}",
+  d11_quick_chat_i_have_phrase_format: "I have {item}",
+};
+
+export const quickChatItems: { [item: string]: string } = {
+  d11_Stone: "Stone",
+  d11_Wood: "Wood",
+  d11_Metal: "Metal",
+  d11_Food: "Food",
+  d11_Water: "Water",
+  d11_Scrap: "Scrap",
+  d11_Metal_Fragments: "Metal Fragments",
+  d11_Medicine: "Medicine",
+  lowgradefuel: "Low Grade Fuel",
+  stones: "Stone",
+  "metal.refined": "High Quality Metal",
+  "bow.hunting": "Hunting Bow",
+  pickaxe: "Pickaxe",
+  hatchet: "Hatchet",
+};
+
 export enum RCEIntent {
   All = "ALL",
   ConsoleMessages = "CONSOLE_MESSAGES",
@@ -442,14 +535,36 @@ export enum LogLevel {
   Debug = 4,
 }
 
+export enum CommandPriority {
+  Low = 0,
+  Normal = 1,
+  High = 2,
+}
+
+export enum CommandErrorCode {
+  NoAccessToken = "NO_ACCESS_TOKEN",
+  InvalidServer = "INVALID_SERVER",
+  NotRunning = "NOT_RUNNING",
+  Http = "HTTP",
+  AioRpc = "AIO_RPC",
+  Network = "NETWORK",
+  Timeout = "TIMEOUT",
+  Aborted = "ABORTED",
+  Cancelled = "CANCELLED",
+}
+
 export const RegularExpressions: { [key: string]: RegExp } = {
   AIO_RPC_Error: new RegExp(/status\s*=\s*([^\n]+)\s+details\s*=\s*"([^"]+)"/),
-  Log: new RegExp(/(\d{2}\/\d{2}\/\d{4} \d{2}:\d{2}:\d{2}):LOG:[^:]+: (.+)$/),
-  CommandExecuting: new RegExp(/Executing console system command '([^']+)'/),
+  Log: new RegExp(/(\d{2}\/\d{2}\/\d{4} \d{2}:\d{2}:\d{2}):LOG:([^:]+): (.+)$/),
+  // Greedy so commands holding quotes themselves, e.g. say "it's", still match whole
+  CommandExecuting: new RegExp(/Executing console system command '(.+)'/),
   VendingMachineName: new RegExp(
     /\[VENDING MACHINE\] Player \[ ([^\]]+) \] changed name from \[ ([^\]]+) \] to \[ ([^\]]+) \]/
   ),
-  QuickChat: new RegExp(/(\[CHAT (TEAM|SERVER|LOCAL)\]) ([\w\s\-_]+) : (.+)/),
+  QuickChat: new RegExp(
+    /^(\[CHAT (TEAM|SERVER|LOCAL)\]) (.+?) : (d11_quick_chat_.+)$/
+  ),
+  PlayerChat: new RegExp(/^(\[CHAT (TEAM|SERVER|LOCAL)\]) (.+?) : (.*)$/),
   CustomZoneCreated: new RegExp(/Successfully created zone \[([\w\d\s_-]+)\]/),
   CustomZoneRemoved: new RegExp(/Successfully removed zone \[([\w\d\s_-]+)\]/),
   PlayerRoleAdd: new RegExp(
@@ -1,4 +1,9 @@
 import { inspect } from "util";
+import {
+  quickChatFormats,
+  quickChatItems,
+  quickChatPhrases,
+} from "./constants";
 
 export default class Helper {
   public static comparePopulation(
@@ -34,4 +39,87 @@ export default class Helper {
       return output;
     }
   }
+
+  /**
+   *
+   * @param message {string} - A quick chat message, e.g. "d11_quick_chat_i_need_phrase_format d11_Metal_Fragments"
+   * @returns {string} - The message in English, the message itself when it is unknown
+   */
+  public static getQuickChatPhrase(message: string) {
+    if (quickChatPhrases[message]) return quickChatPhrases[message];
+
+    const [format, item] = message.split(" ");
+    if (!quickChatFormats[format] || !item) return message;
+
+    // Unknown items are still readable, "d11_Metal_Fragments" becomes "Metal Fragments"
+    const name =
+      quickChatItems[item] ?? item.replace(/^d11_/, "").replace(/[_.]/g, " ");
+    return quickChatFormats[format].replace("{item}", name);
+  }
+
+  /**
+   *
+   * @param date {string} - A console log date, "dd/mm/yyyy hh:mm:ss"
+   * @param timeZone {string} - The IANA time zone the server logs in, e.g. "Europe/London"
+   * @returns {Date | null} - The parsed date, null when the date or time zone is invalid
+   */
+  public static parseLogDate(date: string, timeZone: string = "UTC") {
+    const match = date?.match(
+      /^(\d{2})\/(\d{2})\/(\d{4}) (\d{2}):(\d{2}):(\d{2})$/
+    );
+    if (!match) return null;
+
+    const [, day, month, year, hour, minute, second] = match.map(Number);
+    const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    try {
+      // Guess with the offset at the wall time, then correct it in case a DST change lies in between
+      const guess = wall - this.getOffset(wall, timeZone);
+      return new Date(wall - this.getOffset(guess, timeZone));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   *
+   * @param timeZone {string} - An IANA time zone
+   * @returns {boolean} - Whether the time zone is known to the runtime
+   */
+  public static isTimeZone(timeZone: string) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Milliseconds the time zone is ahead of UTC at the given instant
+  private static getOffset(time: number, timeZone: string) {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      })
+        .formatToParts(time)
+        .map((part) => [part.type, Number(part.value)])
+    );
+
+    const local = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    );
+    return local - (time - (time % 1_000));
+  }
 }
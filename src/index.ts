@@ -5,8 +5,51 @@ import {
   LogLevel,
   QuickChat,
   PlayerKillType,
+  KillCategory,
+  CommandErrorCode,
+  CommandPriority,
 } from "./constants";
 import { ILogger } from "./logger/interfaces";
+import { RCEConfig } from "./config/interfaces";
+import {
+  CommandOptions,
+  CommandResponse,
+  CommandFailure,
+  RateLimitOptions,
+  CommandResult,
+  BroadcastOptions,
+  BroadcastFilter,
+  BroadcastResult,
+  ReconcileResult,
+  RefreshIntervals,
+  PollerOptions,
+  ServerRole,
+  CustomZoneOptions,
+  ServerGroupOptions,
+  ResponseParser,
+  ResponseParserTypes,
+  RustPlayerAuthLevel,
+  RustBan,
+  RustRadioBroadcaster,
+  RustEntity,
+} from "./servers/interfaces";
+import {
+  SubscriptionIntent,
+  SocketStats,
+  LogCheckpoint,
+  KillEntity,
+  PlayerKill,
+  ILogCheckpointStore,
+  ConsoleParser,
+  ConsoleParserContext,
+  ConsoleParserPosition,
+} from "./socket/interfaces";
+import {
+  IAuthStore,
+  StoredAuthData,
+  IAuthProvider,
+  AuthTokens,
+} from "./auth/interfaces";
 import {
   KitGiveEventPayload,
   MessageEventPayload,
@@ -16,6 +59,7 @@ import {
   PlayerRoleAddEventPayload,
   ItemSpawnEventPayload,
   QuickChatEventPayload,
+  PlayerChatEventPayload,
   TeamLeaveEventPayload,
   PlayerKillEventPayload,
   PlayerLeftEventPayload,
@@ -30,6 +74,8 @@ import {
   FrequencyLostEventPayload,
   ServiceSensorEventPayload,
   ServiceStatusEventPayload,
+  ServiceProgressEventPayload,
+  ServiceProgress,
   PlayerRespawnedEventPayload,
   FrequencyGainedEventPayload,
   SpecialEventSetEventPayload,
@@ -40,13 +86,60 @@ import {
   VendingMachineNameEventPayload,
   ErrorEventPayload,
   PlayerRoleRemoveEventPayload,
+  AuthRefreshedEventPayload,
+  AuthFailedEventPayload,
+  AuthReloginEventPayload,
+  RCEAccount,
+  ServerEvent,
+  RCECustomEvents,
+  AccountOptions,
+  SocketConnectingEventPayload,
+  SocketConnectedEventPayload,
+  SocketDisconnectedEventPayload,
+  SocketGaveUpEventPayload,
 } from "./interfaces";
 
 export {
   RCEManager,
   RCEEvent,
   RCEIntent,
+  CommandErrorCode,
+  CommandPriority,
+  CommandOptions,
+  RateLimitOptions,
+  CommandResponse,
+  CommandFailure,
+  CommandResult,
+  BroadcastOptions,
+  BroadcastFilter,
+  BroadcastResult,
+  ReconcileResult,
+  RefreshIntervals,
+  PollerOptions,
+  ServerRole,
+  CustomZoneOptions,
+  ServerGroupOptions,
+  ResponseParser,
+  ResponseParserTypes,
+  RustPlayerAuthLevel,
+  RustBan,
+  RustRadioBroadcaster,
+  RustEntity,
   ILogger,
+  RCEConfig,
+  SubscriptionIntent,
+  SocketStats,
+  LogCheckpoint,
+  KillEntity,
+  PlayerKill,
+  ILogCheckpointStore,
+  ConsoleParser,
+  ConsoleParserContext,
+  ConsoleParserPosition,
+  IAuthStore,
+  StoredAuthData,
+  IAuthProvider,
+  AuthTokens,
   LogLevel,
   KitGiveEventPayload,
   MessageEventPayload,
@@ -56,6 +149,7 @@ export {
   PlayerRoleAddEventPayload,
   ItemSpawnEventPayload,
   QuickChatEventPayload,
+  PlayerChatEventPayload,
   TeamLeaveEventPayload,
   PlayerKillEventPayload,
   PlayerLeftEventPayload,
@@ -70,6 +164,8 @@ export {
   FrequencyLostEventPayload,
   ServiceSensorEventPayload,
   ServiceStatusEventPayload,
+  ServiceProgressEventPayload,
+  ServiceProgress,
   PlayerRespawnedEventPayload,
   FrequencyGainedEventPayload,
   SpecialEventSetEventPayload,
@@ -81,5 +177,17 @@ export {
   QuickChat,
   ErrorEventPayload,
   PlayerKillType,
+  KillCategory,
   PlayerRoleRemoveEventPayload,
+  AuthRefreshedEventPayload,
+  AuthFailedEventPayload,
+  AuthReloginEventPayload,
+  RCEAccount,
+  ServerEvent,
+  RCECustomEvents,
+  AccountOptions,
+  SocketConnectingEventPayload,
+  SocketConnectedEventPayload,
+  SocketDisconnectedEventPayload,
+  SocketGaveUpEventPayload,
 };
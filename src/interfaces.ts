@@ -1,11 +1,35 @@
 import { LogLevel, QuickChat, RCEEvent } from "./constants";
 import { ILogger } from "./logger/interfaces";
-import type { RustServer } from "./servers/interfaces";
-import { PlayerKillData } from "./socket/interfaces";
+import type { AuthTokens, IAuthProvider, IAuthStore } from "./auth/interfaces";
+import type { RateLimitOptions, RustServer } from "./servers/interfaces";
+import type GPortalSocket from "./socket/Socket";
+import { PlayerKill, SocketOptions } from "./socket/interfaces";
 
 export interface AuthOptions {
-  username: string;
-  password: string;
+  username?: string;
+  password?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  tokenProvider?: () => Promise<AuthTokens>;
+  instance?: IAuthProvider;
+  store?: AuthStoreOptions;
+}
+
+export interface AuthStoreOptions {
+  file?: string;
+  key?: string;
+  instance?: IAuthStore;
+}
+
+export interface RCEAccount {
+  name: string;
+  auth: IAuthProvider;
+  socket: GPortalSocket;
+  rateLimit?: RateLimitOptions;
+}
+
+export interface AccountOptions extends SocketOptions {
+  rateLimit?: RateLimitOptions;
 }
 
 export interface LoggerOptions {
@@ -14,12 +38,19 @@ export interface LoggerOptions {
   instance?: ILogger;
 }
 
-interface EventPayload {
+interface TimedPayload {
+  timestamp: Date; // When the server logged it, otherwise when it was received
+}
+
+interface EventPayload extends TimedPayload {
   server: RustServer;
+  backfilled?: boolean; // Raised from console lines logged before the server was added
 }
 
 export interface MessageEventPayload extends EventPayload {
   message: string;
+  raw: string;
+  channel: string;
 }
 
 export interface ServerReadyEventPayload extends EventPayload {
@@ -30,6 +61,28 @@ export interface ServiceStatusEventPayload extends EventPayload {
   status: RustServer["status"];
 }
 
+export interface ServiceInstallProgress {
+  type: "install";
+  action: string;
+  percentage: number;
+}
+
+export interface ServiceBroadcastProgress {
+  type: "broadcast";
+  nextMessageAt: Date | null;
+  stateExitAt: Date | null;
+  remaining: number | null;
+}
+
+export type ServiceProgress = ServiceInstallProgress | ServiceBroadcastProgress;
+
+export interface ServiceProgressEventPayload extends EventPayload {
+  status: RustServer["status"];
+  transitioning: boolean;
+  lastStateChange: Date | null;
+  progress: ServiceProgress;
+}
+
 export interface ServiceSensorEventPayload extends EventPayload {
   cpuPercentage: number;
   memoryUsed: number;
@@ -49,6 +102,13 @@ export interface QuickChatEventPayload extends EventPayload {
   type: "team" | "server" | "local";
   ign: string;
   message: QuickChat;
+  phrase: string; // The message in English, e.g. "I need Metal Fragments"
+}
+
+export interface PlayerChatEventPayload extends EventPayload {
+  channel: "team" | "server" | "local";
+  ign: string;
+  message: string;
 }
 
 export interface PlayerSuicideEventPayload extends EventPayload {
@@ -165,10 +225,7 @@ export interface EventStartEventPayload extends EventPayload {
   special: boolean;
 }
 
-export interface PlayerKillEventPayload extends EventPayload {
-  victim: PlayerKillData;
-  killer: PlayerKillData;
-}
+export interface PlayerKillEventPayload extends EventPayload, PlayerKill {}
 
 export interface PlayerListUpdatedEventPayload extends EventPayload {
   players: string[];
@@ -186,19 +243,74 @@ export interface FrequencyLostEventPayload extends EventPayload {
   frequency: number;
 }
 
-export interface ErrorEventPayload {
+export interface AuthRefreshedEventPayload extends TimedPayload {
+  account: string;
+  relogin: boolean;
+  expiresIn: number;
+}
+
+export interface AuthFailedEventPayload extends TimedPayload {
+  account: string;
   error: string;
-  server?: RustServer;
+  stage: "refresh" | "relogin";
+  attempt: number;
+}
+
+export interface AuthReloginEventPayload extends TimedPayload {
+  account: string;
+  reason: string;
+}
+
+export interface SocketConnectingEventPayload extends TimedPayload {
+  account: string;
+  attempt: number;
 }
 
-export interface RCEEventTypes {
+export interface SocketConnectedEventPayload extends TimedPayload {
+  account: string;
+}
+
+export interface SocketDisconnectedEventPayload extends TimedPayload {
+  account: string;
+  code: number;
+  reason: string;
+}
+
+export interface SocketGaveUpEventPayload extends TimedPayload {
+  account: string;
+  attempts: number;
+}
+
+export interface ErrorEventPayload extends TimedPayload {
+  error: string;
+  server?: RustServer;
+  account?: string;
+}
+
+/**
+ * Plugins add their own events here through declaration merging, they are then typed in `rce.events` like the built-in ones
+ *
+ * @example
+ * ```ts
+ * declare module "@ooovenenoso/rce.js" {
+ *   interface RCECustomEvents {
+ *     ZONE_ENTERED: { ign: string; zone: string };
+ *   }
+ * }
+ * ```
+ */
+export interface RCECustomEvents {}
+
+export interface RCEEventTypes extends RCECustomEvents {
   [RCEEvent.Message]: MessageEventPayload;
   [RCEEvent.ServerReady]: ServerReadyEventPayload;
   [RCEEvent.ServiceStatus]: ServiceStatusEventPayload;
+  [RCEEvent.ServiceProgress]: ServiceProgressEventPayload;
   [RCEEvent.ServiceSensor]: ServiceSensorEventPayload;
   [RCEEvent.ExecutingCommand]: ExecutingCommandEventPayload;
   [RCEEvent.VendingMachineName]: VendingMachineNameEventPayload;
   [RCEEvent.QuickChat]: QuickChatEventPayload;
+  [RCEEvent.PlayerChat]: PlayerChatEventPayload;
   [RCEEvent.PlayerSuicide]: PlayerSuicideEventPayload;
   [RCEEvent.PlayerRespawned]: PlayerRespawnedEventPayload;
   [RCEEvent.CustomZoneCreated]: CustomZoneCreatedEventPayload;
@@ -223,5 +335,18 @@ export interface RCEEventTypes {
   [RCEEvent.PlayerListUpdated]: PlayerListUpdatedEventPayload;
   [RCEEvent.FrequencyGained]: FrequencyGainedEventPayload;
   [RCEEvent.FrequencyLost]: FrequencyLostEventPayload;
+  [RCEEvent.AuthRefreshed]: AuthRefreshedEventPayload;
+  [RCEEvent.AuthFailed]: AuthFailedEventPayload;
+  [RCEEvent.AuthRelogin]: AuthReloginEventPayload;
+  [RCEEvent.SocketConnecting]: SocketConnectingEventPayload;
+  [RCEEvent.SocketConnected]: SocketConnectedEventPayload;
+  [RCEEvent.SocketDisconnected]: SocketDisconnectedEventPayload;
+  [RCEEvent.SocketGaveUp]: SocketGaveUpEventPayload;
   [RCEEvent.Error]: ErrorEventPayload;
 }
+
+export type ServerEvent = {
+  [K in keyof RCEEventTypes]: RCEEventTypes[K] extends { server: RustServer }
+    ? K
+    : never;
+}[keyof RCEEventTypes];
@@ -1,30 +1,262 @@
-import type { CommandRequest } from "./interfaces";
+import type {
+  CommandFailure,
+  CommandOptions,
+  CommandRequest,
+  CommandResponse,
+} from "./interfaces";
+import {
+  CommandErrorCode,
+  CommandPriority,
+  RegularExpressions,
+} from "../constants";
+
+interface CommandQueue {
+  active?: CommandRequest;
+  pending: CommandRequest[];
+}
+
+// Console lines that are never part of a command response
+const IGNORED = [/^\[CHAT (TEAM|SERVER|LOCAL)\]/, /^\[ SAVE \]/];
 
 export default class CommandHandler {
-  private static commands: Map<string, CommandRequest> = new Map();
+  private static queues: Map<string, CommandQueue> = new Map();
+  private static nextId: number = 0;
+
+  /**
+   * @description How long to wait for more output before a response is considered complete
+   */
+  public static idleTimeout: number = 750;
 
   public static destroy() {
-    this.commands.clear();
+    this.queues.forEach((_, identifier) => this.clear(identifier));
+  }
+
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @param command {string} - The command to send
+   * @param send {Function} - Sends the command, resolving with a failure if it could not be sent
+   * @param options {CommandOptions} - The timeout, abort signal and completion check
+   * @returns {Promise<CommandResponse>} - The captured response
+   * @description Queues a response-bearing command, only one is in flight per server so output can be matched to it
+   */
+  public static queue(
+    identifier: string,
+    command: string,
+    send: () => Promise<CommandFailure | void>,
+    options: CommandOptions = {}
+  ): Promise<CommandResponse> {
+    return new Promise((resolve) => {
+      if (options.signal?.aborted) {
+        return resolve(this.failure(CommandErrorCode.Aborted));
+      }
+
+      const request: CommandRequest = {
+        id: ++this.nextId,
+        identifier,
+        command: command.trim(),
+        lines: [],
+        options,
+        send,
+        resolve,
+      };
+
+      if (options.signal) {
+        request.abort = () =>
+          this.complete(request, this.failure(CommandErrorCode.Aborted));
+        options.signal.addEventListener("abort", request.abort, {
+          once: true,
+        });
+      }
+
+      if (!this.queues.has(identifier)) {
+        this.queues.set(identifier, { pending: [] });
+      }
+
+      // Higher priorities jump ahead, first in first out within a priority
+      const pending = this.queues.get(identifier).pending;
+      const priority = options.priority ?? CommandPriority.Normal;
+      const index = pending.findIndex(
+        (r) => (r.options.priority ?? CommandPriority.Normal) < priority
+      );
+      pending.splice(index === -1 ? pending.length : index, 0, request);
+
+      this.next(identifier);
+    });
+  }
+
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @description Resolves every queued command for a server as cancelled
+   */
+  public static clear(identifier: string) {
+    const queue = this.queues.get(identifier);
+    if (!queue) return;
+
+    this.queues.delete(identifier);
+    [queue.active, ...queue.pending]
+      .filter((request) => request)
+      .forEach((request) =>
+        this.finish(request, this.failure(CommandErrorCode.Cancelled))
+      );
   }
 
-  public static add(command: CommandRequest) {
-    this.commands.set(`${command.identifier}:${command.command}`, command);
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @returns {number} - How many commands are waiting for the one in flight
+   */
+  public static depth(identifier?: string) {
+    if (identifier) return this.queues.get(identifier)?.pending.length ?? 0;
+
+    return Array.from(this.queues.values()).reduce(
+      (depth, queue) => depth + queue.pending.length,
+      0
+    );
   }
 
-  public static remove(command: CommandRequest) {
-    if (command) {
-      this.commands.delete(`${command.identifier}:${command.command}`);
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @param timestamp {string} - The timestamp of the console line
+   * @param log {string} - The console line
+   * @description Feeds a console line to the command currently awaiting a response
+   */
+  public static handle(identifier: string, timestamp: string, log: string) {
+    const request = this.queues.get(identifier)?.active;
+    if (!request || request.closed) return;
+
+    const executing = log.match(RegularExpressions.CommandExecuting);
+    if (executing) {
+      // Another command started executing, the response is complete
+      if (request.timestamp) return this.close(request);
+
+      if (executing[1].trim() === request.command) {
+        request.timestamp = timestamp;
+        this.resetIdle(request);
+      }
+
+      return;
     }
+
+    if (!request.timestamp || IGNORED.some((regex) => regex.test(log))) return;
+
+    request.lines.push(log);
+
+    if (this.matches(request)) {
+      return this.complete(request);
+    }
+
+    this.resetIdle(request);
   }
 
-  public static get(identifier: string, command: string) {
-    return this.commands.get(`${identifier}:${command}`);
+  private static async next(identifier: string) {
+    const queue = this.queues.get(identifier);
+    if (!queue || queue.active || !queue.pending.length) return;
+
+    const request = queue.pending.shift();
+    queue.active = request;
+
+    request.timeout = setTimeout(
+      () =>
+        this.complete(
+          request,
+          this.failure(
+            CommandErrorCode.Timeout,
+            request.lines.length ? request.lines.join("\n") : undefined
+          )
+        ),
+      request.options.timeout ?? 3_000
+    );
+
+    let failure: CommandFailure | void;
+    try {
+      failure = await request.send();
+    } catch (error) {
+      failure = {
+        ok: false,
+        code: CommandErrorCode.Network,
+        error: error.message,
+      };
+    }
+
+    if (failure) {
+      this.complete(request, failure);
+    }
   }
 
-  public static getQueued(identifier: string, timestamp: string) {
-    return Array.from(this.commands.values()).find(
-      (command) =>
-        command.identifier === identifier && command.timestamp === timestamp
+  /**
+   * Stops capturing output, resolving unless the response is still expected
+   */
+  private static close(request: CommandRequest) {
+    if (!request.options.expect) return this.complete(request);
+
+    clearTimeout(request.idle);
+    request.closed = true;
+  }
+
+  private static complete(request: CommandRequest, response?: CommandResponse) {
+    const queue = this.queues.get(request.identifier);
+    if (!queue) return;
+
+    if (queue.active === request) {
+      queue.active = undefined;
+    } else if (queue.pending.includes(request)) {
+      queue.pending.splice(queue.pending.indexOf(request), 1);
+    } else {
+      return;
+    }
+
+    this.finish(
+      request,
+      response ?? {
+        ok: true,
+        response: request.lines.length ? request.lines.join("\n") : undefined,
+      }
     );
+    this.next(request.identifier);
+  }
+
+  private static finish(request: CommandRequest, response: CommandResponse) {
+    clearTimeout(request.timeout);
+    clearTimeout(request.idle);
+    request.options.signal?.removeEventListener("abort", request.abort);
+
+    request.resolve(response);
+  }
+
+  private static matches(request: CommandRequest) {
+    const { expect } = request.options;
+    if (!expect) return false;
+
+    const response = request.lines.join("\n");
+    if (expect instanceof RegExp) {
+      expect.lastIndex = 0;
+      return expect.test(response);
+    }
+
+    return expect(response);
+  }
+
+  private static resetIdle(request: CommandRequest) {
+    // With an expectation the response is only complete once it matches
+    if (request.options.expect) return;
+
+    clearTimeout(request.idle);
+    request.idle = setTimeout(() => this.complete(request), this.idleTimeout);
+  }
+
+  private static failure(
+    code: CommandErrorCode,
+    response?: string
+  ): CommandFailure {
+    const errors = {
+      [CommandErrorCode.Timeout]: "Command Timed Out",
+      [CommandErrorCode.Aborted]: "Command Aborted",
+      [CommandErrorCode.Cancelled]: "Command Cancelled",
+    };
+
+    return { ok: false, code, error: errors[code] ?? code, response };
   }
 }
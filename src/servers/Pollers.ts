@@ -0,0 +1,381 @@
+import type RCEManager from "../Manager";
+import type { EventStartEventPayload } from "../interfaces";
+import type {
+  PollerOptions,
+  RustRadioBroadcaster,
+  RustServer,
+} from "./interfaces";
+import { CommandPriority, RCEEvent } from "../constants";
+import ServerUtils from "../util/ServerUtils";
+import Helper from "../helper";
+
+interface PollerState {
+  identifier: string;
+  name: string;
+  interval: number;
+  next: number;
+  running: boolean;
+  previous?: any;
+}
+
+const MIN_INTERVAL = 1_000;
+
+// Debris stays around for roughly ten minutes
+const GIBS_DURATION = 60_000 * 10;
+
+function flag(
+  manager: RCEManager,
+  server: RustServer,
+  name: string,
+  event: EventStartEventPayload["event"]
+) {
+  if (server.flags.includes(name)) return;
+  server.flags.push(name);
+
+  setTimeout(() => {
+    const s = manager.servers.get(server.identifier);
+    if (s) {
+      s.flags = s.flags.filter((f) => f !== name);
+      manager.servers.update(s);
+    }
+  }, GIBS_DURATION);
+
+  manager.events.emit(RCEEvent.EventStart, { server, event, special: false });
+}
+
+const BUILT_IN: PollerOptions[] = [
+  {
+    name: "playerRefreshing",
+    interval: 60_000,
+    command: "users",
+    diff: (players: string[], previous, server, manager) => {
+      const { joined, left } = Helper.comparePopulation(
+        server.players,
+        players
+      );
+
+      joined.forEach((ign) =>
+        manager.events.emit(RCEEvent.PlayerJoined, { server, ign })
+      );
+      left.forEach((ign) =>
+        manager.events.emit(RCEEvent.PlayerLeft, { server, ign })
+      );
+
+      server.players = players;
+      manager.servers.update(server);
+
+      manager.events.emit(RCEEvent.PlayerListUpdated, {
+        server,
+        players,
+        joined,
+        left,
+      });
+    },
+  },
+  {
+    name: "radioRefreshing",
+    interval: 30_000,
+    command: "rf.listboardcaster",
+    diff: (broadcasts: RustRadioBroadcaster[], previous, server, manager) => {
+      server.frequencies.forEach((frequency) => {
+        if (broadcasts.find((b) => b.frequency === frequency)) return;
+
+        manager.events.emit(RCEEvent.FrequencyLost, { server, frequency });
+        server.frequencies = server.frequencies.filter((f) => f !== frequency);
+      });
+
+      broadcasts.forEach((broadcast) => {
+        if (server.frequencies.includes(broadcast.frequency)) return;
+        server.frequencies.push(broadcast.frequency);
+
+        if (broadcast.frequency === 4765) {
+          manager.events.emit(RCEEvent.EventStart, {
+            server,
+            event: "Small Oil Rig",
+            special: false,
+          });
+        } else if (broadcast.frequency === 4768) {
+          manager.events.emit(RCEEvent.EventStart, {
+            server,
+            event: "Oil Rig",
+            special: false,
+          });
+        }
+
+        manager.events.emit(RCEEvent.FrequencyGained, {
+          server,
+          frequency: broadcast.frequency,
+          coordinates: broadcast.coordinates,
+          range: broadcast.range,
+        });
+      });
+
+      manager.servers.update(server);
+    },
+  },
+  {
+    name: "extendedEventRefreshing",
+    interval: 60_000,
+    run: async (server, manager) => {
+      const options = { response: true, priority: CommandPriority.Low };
+      const bradley = await manager.servers.command(
+        server.identifier,
+        "find_entity servergibs_bradley",
+        options
+      );
+      const heli = await manager.servers.command(
+        server.identifier,
+        "find_entity servergibs_patrolhelicopter",
+        options
+      );
+      if (!bradley.response || !heli.response) return undefined;
+
+      return {
+        bradley: bradley.response.includes("servergibs_bradley"),
+        helicopter: heli.response.includes("servergibs_patrolhelicopter"),
+      };
+    },
+    diff: (gibs, previous, server, manager) => {
+      if (gibs.bradley) {
+        flag(manager, server, "BRADLEY", "Bradley APC Debris");
+      }
+
+      if (gibs.helicopter) {
+        flag(manager, server, "HELICOPTER", "Patrol Helicopter Debris");
+      }
+
+      manager.servers.update(server);
+    },
+  },
+];
+
+export default class Pollers {
+  private _manager: RCEManager;
+  private _pollers: Map<string, PollerOptions> = new Map(
+    BUILT_IN.map((poller) => [poller.name, poller])
+  );
+  private _states: Map<string, PollerState> = new Map();
+  private _timer: NodeJS.Timeout;
+
+  public constructor(manager: RCEManager) {
+    this._manager = manager;
+  }
+
+  /**
+   *
+   * @param poller {PollerOptions} - The probe to run periodically
+   * @returns {void}
+   * @description Registers a periodic probe. Servers run it once its name is listed in their `pollers` option, the interval can be overridden per server through `refreshIntervals`
+   *
+   * @example
+   * ```js
+   * rce.servers.pollers.register({
+   *   name: "time",
+   *   interval: 30_000,
+   *   command: "env.time",
+   *   parse: (response) => parseFloat(response.split(" ")[1]),
+   *   diff: (time, previous, server, manager) => {
+   *     if (previous < 20 && time >= 20) console.log(`[${server.identifier}] Night Has Fallen`);
+   *   },
+   * });
+   *
+   * await rce.servers.add({ identifier: "my-server-id", serverId: 1234567, region: "EU", pollers: ["time"] });
+   * ```
+   */
+  public register<T = any>(poller: PollerOptions<T>) {
+    if (!poller.run && !poller.command) {
+      throw new Error(
+        `Failed To Register Poller: ${poller.name} Needs A Command Or Run Function`
+      );
+    }
+
+    this._pollers.set(poller.name, poller);
+    this._manager.servers.getAll().forEach((server) => this.schedule(server));
+  }
+
+  /**
+   *
+   * @param name {string} - The poller to remove
+   * @returns {boolean} - Whether a poller was removed
+   */
+  public unregister(name: string) {
+    this._states.forEach((state, key) => {
+      if (state.name === name) this._states.delete(key);
+    });
+    this.arm();
+
+    return this._pollers.delete(name);
+  }
+
+  /**
+   *
+   * @param name {string} - The poller name
+   * @returns {boolean} - Whether the poller is registered
+   */
+  public has(name: string) {
+    return this._pollers.has(name);
+  }
+
+  /**
+   *
+   * @param server {RustServer} - The server whose `intervals` changed
+   * @returns {void}
+   * @description Starts, stops and reschedules the server's pollers to match its `intervals`
+   */
+  public schedule(server: RustServer) {
+    this._pollers.forEach((poller, name) => {
+      const key = this.key(server.identifier, name);
+      const settings = server.intervals[name];
+      if (!settings?.enabled) {
+        this._states.delete(key);
+        return;
+      }
+
+      const interval = Math.max(
+        settings.interval ?? poller.interval,
+        MIN_INTERVAL
+      );
+      const state = this._states.get(key);
+      if (state?.interval === interval) return;
+
+      this._states.set(key, {
+        identifier: server.identifier,
+        name,
+        interval,
+        next: Date.now() + interval,
+        running: state?.running ?? false,
+        previous: state?.previous,
+      });
+    });
+
+    this.arm();
+  }
+
+  /**
+   *
+   * @param server {RustServer} - The server to poll
+   * @param name {string} - The poller to run, every enabled poller when omitted
+   * @returns {Promise<void>} - Resolves once the pollers have finished
+   * @description Runs the server's pollers now instead of waiting for their next turn
+   */
+  public async run(server: RustServer, name?: string) {
+    const states = Array.from(this._states.values()).filter(
+      (state) =>
+        state.identifier === server.identifier && (!name || state.name === name)
+    );
+
+    for (const state of states) {
+      state.next = Date.now() + state.interval;
+      await this.execute(server, state);
+    }
+
+    this.arm();
+  }
+
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @returns {void}
+   * @description Stops every poller of the server
+   */
+  public remove(identifier: string) {
+    this._states.forEach((state, key) => {
+      if (state.identifier === identifier) this._states.delete(key);
+    });
+    this.arm();
+  }
+
+  public destroy() {
+    clearTimeout(this._timer);
+    this._states.clear();
+  }
+
+  // A single timer wakes up for whichever poller is due first
+  private arm() {
+    clearTimeout(this._timer);
+    if (!this._states.size) return;
+
+    const next = Math.min(
+      ...Array.from(this._states.values(), (state) => state.next)
+    );
+    this._timer = setTimeout(() => this.tick(), Math.max(next - Date.now(), 0));
+  }
+
+  private tick() {
+    const now = Date.now();
+
+    this._states.forEach((state, key) => {
+      if (state.next > now) return;
+
+      const server = this._manager.servers.get(state.identifier);
+      if (!server) {
+        this._states.delete(key);
+        return;
+      }
+
+      // Paused servers skip their turn rather than queueing up work
+      state.next = now + state.interval;
+      if (server.status !== "RUNNING" || state.running) return;
+
+      this.execute(server, state);
+    });
+
+    this.arm();
+  }
+
+  private async execute(server: RustServer, state: PollerState) {
+    const poller = this._pollers.get(state.name);
+    if (!poller || state.running) return;
+
+    state.running = true;
+    this._manager.logger.debug(
+      `[${server.identifier}] Running Poller: ${poller.name}`
+    );
+
+    try {
+      const current = poller.run
+        ? await poller.run(server, this._manager)
+        : await this.probe(server, poller);
+
+      if (current === undefined) {
+        if (!server.silent) {
+          this._manager.logger.warn(
+            `[${server.identifier}] Poller Failed: ${poller.name}`
+          );
+        }
+
+        return;
+      }
+
+      poller.diff?.(current, state.previous, server, this._manager);
+      state.previous = current;
+    } catch (error) {
+      ServerUtils.error(
+        this._manager,
+        `Poller Failed: ${poller.name} (${error})`,
+        server
+      );
+    } finally {
+      state.running = false;
+    }
+  }
+
+  private async probe(server: RustServer, poller: PollerOptions) {
+    const result = await this._manager.servers.command(
+      server.identifier,
+      poller.command,
+      { response: true, priority: poller.priority ?? CommandPriority.Low }
+    );
+    if (!result.ok || result.response === undefined) return undefined;
+
+    if (poller.parse) return poller.parse(result.response, poller.command);
+
+    return this._manager.servers.parsers.has(poller.command)
+      ? this._manager.servers.parsers.parse(poller.command, result.response)
+      : result.response;
+  }
+
+  private key(identifier: string, name: string) {
+    return `${identifier}:${name}`;
+  }
+}
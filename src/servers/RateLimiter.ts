@@ -0,0 +1,225 @@
+import type RCEManager from "../Manager";
+import type { RateLimitOptions, RustServer } from "./interfaces";
+import { CommandPriority } from "../constants";
+
+interface RateLimitEntry {
+  identifier: string;
+  account: string;
+  priority: CommandPriority;
+  resolve: (acquired: boolean) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  abort?: () => void;
+}
+
+const SERVER_LIMIT: Required<RateLimitOptions> = {
+  capacity: 5,
+  refillRate: 2,
+};
+
+const ACCOUNT_LIMIT: Required<RateLimitOptions> = {
+  capacity: 10,
+  refillRate: 5,
+};
+
+class TokenBucket {
+  private capacity: number;
+  private refillRate: number;
+  private tokens: number;
+  private updatedAt: number = Date.now();
+
+  public constructor(options: Required<RateLimitOptions>) {
+    this.capacity = Math.max(options.capacity, 1);
+    this.refillRate = Math.max(options.refillRate, 0.001);
+    this.tokens = this.capacity;
+  }
+
+  public available() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) / 1_000) * this.refillRate
+    );
+    this.updatedAt = now;
+
+    return this.tokens >= 1;
+  }
+
+  public take() {
+    this.tokens -= 1;
+  }
+
+  /**
+   * @returns {number} - Milliseconds until the next token is available
+   */
+  public wait() {
+    return Math.ceil(((1 - this.tokens) / this.refillRate) * 1_000);
+  }
+}
+
+export default class RateLimiter {
+  private _manager: RCEManager;
+  private _servers: Map<string, TokenBucket> = new Map();
+  private _options: Map<string, string> = new Map();
+  private _accounts: Map<string, TokenBucket> = new Map();
+  private _queue: RateLimitEntry[] = [];
+  private _timer: NodeJS.Timeout;
+  private _destroyed: boolean = false;
+
+  public constructor(manager: RCEManager) {
+    this._manager = manager;
+  }
+
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @param options {RateLimitOptions} - The bucket size and refill rate for the server
+   * @returns {boolean} - Whether the limit changed
+   */
+  public configure(identifier: string, options: RateLimitOptions = {}) {
+    const key = JSON.stringify({ ...SERVER_LIMIT, ...options });
+    if (
+      this._servers.has(identifier) &&
+      this._options.get(identifier) === key
+    ) {
+      return false;
+    }
+
+    this._options.set(identifier, key);
+    this._servers.set(
+      identifier,
+      new TokenBucket({ ...SERVER_LIMIT, ...options })
+    );
+    return true;
+  }
+
+  /**
+   *
+   * @param server {RustServer} - The server the command is sent to
+   * @param priority {CommandPriority} - Higher priorities are granted first
+   * @param signal {AbortSignal} - Stops waiting when aborted
+   * @returns {Promise<boolean>} - Whether a token was granted, false when aborted or the server was removed
+   * @throws {Error} If the limiter is destroyed while waiting
+   */
+  public acquire(
+    server: RustServer,
+    priority: CommandPriority = CommandPriority.Normal,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (this._destroyed) {
+      return Promise.reject(new Error("Rate Limiter Destroyed"));
+    }
+    if (signal?.aborted) return Promise.resolve(false);
+
+    return new Promise((resolve, reject) => {
+      const entry: RateLimitEntry = {
+        identifier: server.identifier,
+        account: server.account,
+        priority,
+        resolve,
+        reject,
+        signal,
+      };
+
+      if (signal) {
+        entry.abort = () => this.release(entry, false);
+        signal.addEventListener("abort", entry.abort, { once: true });
+      }
+
+      // Keep the queue ordered by priority, first in first out within a priority
+      const index = this._queue.findIndex((e) => e.priority < priority);
+      this._queue.splice(index === -1 ? this._queue.length : index, 0, entry);
+
+      this.drain();
+    });
+  }
+
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @description Drops the server's bucket and stops every command waiting on it
+   */
+  public remove(identifier: string) {
+    this._servers.delete(identifier);
+    this._options.delete(identifier);
+    this._queue
+      .filter((entry) => entry.identifier === identifier)
+      .forEach((entry) => this.release(entry, false));
+  }
+
+  /**
+   *
+   * @param identifier {string} - The server identifier, every server when omitted
+   * @returns {number} - How many commands are waiting for a token
+   */
+  public depth(identifier?: string) {
+    return identifier
+      ? this._queue.filter((entry) => entry.identifier === identifier).length
+      : this._queue.length;
+  }
+
+  public destroy() {
+    this._destroyed = true;
+    clearTimeout(this._timer);
+    this._queue.splice(0).forEach((entry) => {
+      entry.signal?.removeEventListener("abort", entry.abort);
+      entry.reject(new Error("Rate Limiter Destroyed"));
+    });
+    this._servers.clear();
+    this._options.clear();
+    this._accounts.clear();
+  }
+
+  private drain() {
+    clearTimeout(this._timer);
+
+    let wait = Infinity;
+    for (const entry of [...this._queue]) {
+      const buckets = [
+        this.getServerBucket(entry.identifier),
+        this.getAccountBucket(entry.account),
+      ];
+
+      const blocked = buckets.filter((bucket) => !bucket.available());
+      if (blocked.length) {
+        wait = Math.min(wait, ...blocked.map((bucket) => bucket.wait()));
+        continue;
+      }
+
+      buckets.forEach((bucket) => bucket.take());
+      this.release(entry, true);
+    }
+
+    if (this._queue.length) {
+      this._timer = setTimeout(() => this.drain(), Math.max(wait, 10));
+    }
+  }
+
+  private release(entry: RateLimitEntry, acquired: boolean) {
+    const index = this._queue.indexOf(entry);
+    if (index === -1) return;
+
+    this._queue.splice(index, 1);
+    entry.signal?.removeEventListener("abort", entry.abort);
+    entry.resolve(acquired);
+  }
+
+  private getServerBucket(identifier: string) {
+    if (!this._servers.has(identifier)) this.configure(identifier);
+    return this._servers.get(identifier);
+  }
+
+  private getAccountBucket(account: string) {
+    if (!this._accounts.has(account)) {
+      this._accounts.set(
+        account,
+        new TokenBucket({
+          ...ACCOUNT_LIMIT,
+          ...this._manager.getAccount(account)?.rateLimit,
+        })
+      );
+    }
+
+    return this._accounts.get(account);
+  }
+}
@@ -0,0 +1,157 @@
+import type {
+  ResponseParser,
+  ResponseParserTypes,
+  RustBan,
+  RustEntity,
+  RustPlayerAuthLevel,
+  RustRadioBroadcaster,
+  RustServerInformation,
+} from "./interfaces";
+import Helper from "../helper";
+
+const QUOTED = /"((?:[^"\\]|\\.)*)"/g;
+
+function quoted(line: string) {
+  return Array.from(line.matchAll(QUOTED), (match) =>
+    match[1].replace(/\\(.)/g, "$1")
+  );
+}
+
+function lines(response: string) {
+  return response
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line);
+}
+
+const BUILT_IN: { [K in keyof ResponseParserTypes]: ResponseParser } = {
+  // The <slot:"name"> header is not a player
+  users: (response): string[] =>
+    quoted(response.replace(/<slot:"[^"]*">/g, "")),
+
+  getauthlevels: (response): RustPlayerAuthLevel[] => {
+    const levels: RustPlayerAuthLevel[] = [];
+    let level: string;
+
+    lines(response).forEach((line) => {
+      // Either a "Level:" heading followed by names, or names inline after it
+      const heading = line.match(/^([^":]+):\s*(.*)$/);
+      if (heading) {
+        level = heading[1].trim().toLowerCase();
+        line = heading[2];
+      }
+
+      quoted(line).forEach((ign) => levels.push({ ign, level }));
+    });
+
+    return levels;
+  },
+
+  banlist: (response): RustBan[] =>
+    lines(response)
+      .map((line) => quoted(line))
+      .filter((values) => values.length)
+      .map(([ign, reason]) => ({ ign, reason: reason || undefined })),
+
+  banlistex: (response, command) => BUILT_IN.banlist(response, command),
+
+  serverinfo: (response): RustServerInformation => {
+    const data = Helper.cleanOutput(response, true);
+    return typeof data === "object" ? data : null;
+  },
+
+  "rf.listboardcaster": (response): RustRadioBroadcaster[] =>
+    Array.from(
+      response.matchAll(
+        /\[(\d+) MHz\] Position: \(([\d.-]+), ([\d.-]+), ([\d.-]+)\), Range: (\d+)/g
+      ),
+      (match) => ({
+        frequency: parseInt(match[1], 10),
+        coordinates: [
+          parseFloat(match[2]),
+          parseFloat(match[3]),
+          parseFloat(match[4]),
+        ],
+        range: parseInt(match[5], 10),
+      })
+    ),
+
+  find_entity: (response): RustEntity[] =>
+    lines(response)
+      .map((line) =>
+        line.match(
+          /^([\w.\-\/]+)(?:\[(\d+)\])?[^(]*(?:\(([\d.-]+),\s*([\d.-]+),\s*([\d.-]+)\))?/
+        )
+      )
+      .filter((match) => match && (match[2] || match[3]))
+      .map((match) => ({
+        name: match[1],
+        id: match[2] ? parseInt(match[2], 10) : undefined,
+        position: match[3]
+          ? [parseFloat(match[3]), parseFloat(match[4]), parseFloat(match[5])]
+          : undefined,
+      })),
+};
+
+export default class ResponseParsers {
+  private _parsers: Map<string, ResponseParser> = new Map(
+    Object.entries(BUILT_IN)
+  );
+
+  /**
+   *
+   * @param command {string} - The command, only the first word is used so "find_entity" covers "find_entity servergibs_bradley"
+   * @param parser {ResponseParser} - Turns the raw response into a typed object
+   * @returns {void}
+   *
+   * @example
+   * ```js
+   * rce.servers.parsers.register("env.time", (response) => parseFloat(response.split(" ")[1]));
+   * ```
+   */
+  public register(command: string, parser: ResponseParser) {
+    this._parsers.set(this.key(command), parser);
+  }
+
+  /**
+   *
+   * @param command {string} - The command to stop parsing
+   * @returns {boolean} - Whether a parser was removed
+   */
+  public unregister(command: string) {
+    return this._parsers.delete(this.key(command));
+  }
+
+  /**
+   *
+   * @param command {string} - The command
+   * @returns {boolean} - Whether a parser is registered for the command
+   */
+  public has(command: string) {
+    return this._parsers.has(this.key(command));
+  }
+
+  /**
+   *
+   * @param command {string} - The command the response belongs to
+   * @param response {string} - The raw response
+   * @returns {any} - The parsed response, undefined when no parser is registered
+   */
+  public parse<K extends keyof ResponseParserTypes>(
+    command: K,
+    response: string
+  ): ResponseParserTypes[K];
+  public parse<T = any>(command: string, response: string): T;
+  public parse(command: string, response: string) {
+    const parser = this._parsers.get(this.key(command));
+    if (!parser || response === undefined || response === null) {
+      return undefined;
+    }
+
+    return parser(response, command);
+  }
+
+  private key(command: string) {
+    return command.trim().split(/\s+/)[0].toLowerCase();
+  }
+}
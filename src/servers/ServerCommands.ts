@@ -0,0 +1,295 @@
+import type RCEManager from "../Manager";
+import type {
+  CommandOptions,
+  CommandResponse,
+  CommandResult,
+  CustomZoneOptions,
+  ServerRole,
+} from "./interfaces";
+import { RegularExpressions } from "../constants";
+
+export default class ServerCommands {
+  private _manager: RCEManager;
+  private _identifier: string;
+
+  /**
+   *
+   * @param manager {RCEManager} - The RCE Manager
+   * @param identifier {string} - The server the commands are sent to
+   */
+  public constructor(manager: RCEManager, identifier: string) {
+    this._manager = manager;
+    this._identifier = identifier;
+  }
+
+  /**
+   *
+   * @param value {string | number} - The argument to quote
+   * @returns {string} - The argument wrapped in quotes, with quotes and backslashes escaped
+   */
+  public static quote(value: string | number) {
+    const escaped = String(value)
+      .replace(/[\r\n]+/g, " ")
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"');
+
+    return `"${escaped}"`;
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to give the item to
+   * @param item {string} - The item short name, e.g. "rifle.ak"
+   * @param quantity {number} - How many to give
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResult>} - The player, item and quantity the server confirmed
+   *
+   * @example
+   * ```js
+   * await rce.servers.commands("my-server-id").giveItem("Player", "rifle.ak", 1);
+   * ```
+   */
+  public giveItem(
+    ign: string,
+    item: string,
+    quantity: number = 1,
+    options?: CommandOptions
+  ) {
+    return this.run(
+      `inventory.giveto ${ServerCommands.quote(ign)} ${ServerCommands.quote(
+        item
+      )} ${Math.max(Math.floor(quantity), 1)}`,
+      RegularExpressions.ItemSpawn,
+      (match) => ({
+        ign: match[1],
+        item: match[3],
+        quantity: parseInt(match[2]),
+      }),
+      options
+    );
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to give the kit to
+   * @param kit {string} - The kit name
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResult>} - The player and kit the server confirmed
+   *
+   * @example
+   * ```js
+   * await rce.servers.commands("my-server-id").giveKit("Player", "starter");
+   * ```
+   */
+  public giveKit(ign: string, kit: string, options?: CommandOptions) {
+    return this.run(
+      `kit givetoplayer ${ServerCommands.quote(kit)} ${ServerCommands.quote(
+        ign
+      )}`,
+      RegularExpressions.KitGive,
+      (match) => ({ ign: match[2], kit: match[3] }),
+      options
+    );
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to add
+   * @param role {ServerRole} - The group to add the player to
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResult>} - The player and group the server confirmed
+   *
+   * @example
+   * ```js
+   * await rce.servers.commands("my-server-id").addToGroup("Player", "moderator");
+   * ```
+   */
+  public addToGroup(ign: string, role: ServerRole, options?: CommandOptions) {
+    return this.run(
+      `${role}id ${ServerCommands.quote(ign)}`,
+      RegularExpressions.PlayerRoleAdd,
+      (match) => ({ ign: match[2], role: match[3] }),
+      options
+    );
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to remove
+   * @param role {ServerRole} - The group to remove the player from
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResult>} - The player and group the server confirmed
+   */
+  public removeFromGroup(
+    ign: string,
+    role: ServerRole,
+    options?: CommandOptions
+  ) {
+    return this.run(
+      `remove${role} ${ServerCommands.quote(ign)}`,
+      RegularExpressions.PlayerRoleRemove,
+      (match) => ({ ign: match[2], role: match[3] }),
+      options
+    );
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the custom zone
+   * @param zone {CustomZoneOptions} - Where the zone is, its shape and its settings
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResult>} - The zone the server confirmed
+   *
+   * @example
+   * ```js
+   * await rce.servers.commands("my-server-id").createZone("Arena", { position: [0, 0, 0], size: 50 });
+   * ```
+   */
+  public createZone(
+    name: string,
+    zone: CustomZoneOptions,
+    options?: CommandOptions
+  ) {
+    const size = Array.isArray(zone.size)
+      ? `(${zone.size.join(",")})`
+      : zone.size;
+
+    return this.run(
+      [
+        "zones.createcustomzone",
+        ServerCommands.quote(name),
+        `(${zone.position.join(",")})`,
+        zone.rotation ?? 0,
+        zone.type ?? "Sphere",
+        size,
+        zone.pvpMode ?? 0,
+        zone.npcDamage ?? 0,
+        zone.radiationDamage ?? 0,
+        zone.buildingDamage ?? 0,
+        zone.building ?? 0,
+      ].join(" "),
+      RegularExpressions.CustomZoneCreated,
+      (match) => ({ zone: match[1] }),
+      options
+    );
+  }
+
+  /**
+   *
+   * @param name {string} - The custom zone to remove
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResult>} - The zone the server confirmed
+   */
+  public removeZone(name: string, options?: CommandOptions) {
+    return this.run(
+      `zones.removecustomzone ${ServerCommands.quote(name)}`,
+      RegularExpressions.CustomZoneRemoved,
+      (match) => ({ zone: match[1] }),
+      options
+    );
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to kick
+   * @param reason {string} - Shown to the player
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResponse>}
+   */
+  public kick(ign: string, reason?: string, options?: CommandOptions) {
+    return this.send(
+      `kick ${ServerCommands.quote(ign)}${
+        reason ? ` ${ServerCommands.quote(reason)}` : ""
+      }`,
+      options
+    );
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to ban
+   * @param reason {string} - Stored with the ban
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResponse>}
+   */
+  public ban(ign: string, reason?: string, options?: CommandOptions) {
+    return this.send(
+      `banid ${ServerCommands.quote(ign)}${
+        reason ? ` ${ServerCommands.quote(reason)}` : ""
+      }`,
+      options
+    );
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to unban
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResponse>}
+   */
+  public unban(ign: string, options?: CommandOptions) {
+    return this.send(`unban ${ServerCommands.quote(ign)}`, options);
+  }
+
+  /**
+   *
+   * @param message {string} - The message, supports the formatting in the cheatsheet
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResponse>}
+   *
+   * @example
+   * ```js
+   * await rce.servers.commands("my-server-id").say("<color=red>Restarting soon</color>");
+   * ```
+   */
+  public say(message: string, options?: CommandOptions) {
+    // The whole line is broadcast, quoting it would show the quotes in chat
+    return this.send(`global.say ${message.replace(/[\r\n]+/g, " ")}`, options);
+  }
+
+  /**
+   *
+   * @param ign {string} - The player to teleport
+   * @param position {number[]} - The x, y and z coordinates
+   * @param options {CommandOptions} - Options passed to `servers.command`
+   * @returns {Promise<CommandResponse>}
+   */
+  public teleport(
+    ign: string,
+    position: [number, number, number],
+    options?: CommandOptions
+  ) {
+    return this.send(
+      `teleportpos (${position.join(",")}) ${ServerCommands.quote(ign)}`,
+      options
+    );
+  }
+
+  /**
+   * Sends a command whose output is not parsed, the response is only captured when `options.response` is set
+   */
+  private send(
+    command: string,
+    options?: CommandOptions
+  ): Promise<CommandResponse> {
+    return this._manager.servers.command(this._identifier, command, options);
+  }
+
+  private async run<T>(
+    command: string,
+    regex: RegExp,
+    parse: (match: RegExpMatchArray) => T,
+    options?: CommandOptions
+  ): Promise<CommandResult<T>> {
+    // Failure replies such as an unknown player never match, so the reply is taken once the output goes idle
+    const result = await this._manager.servers.command(
+      this._identifier,
+      command,
+      { ...options, response: true }
+    );
+    if (!result.ok) return result;
+
+    const match = result.response?.match(regex);
+    return { ...result, data: match ? parse(match) : undefined };
+  }
+}
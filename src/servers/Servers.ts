@@ -1,34 +1,52 @@
-import type GPortalAuth from "../auth/Auth";
-import type GPortalSocket from "../socket/Socket";
 import type RCEManager from "../Manager";
-import { GPortalRoutes, RCEEvent } from "../constants";
+import {
+  CommandErrorCode,
+  CommandPriority,
+  DEFAULT_ACCOUNT,
+  GPortalRoutes,
+  RCEEvent,
+  RCEIntent,
+} from "../constants";
 import type {
   ServerOptions,
+  ServerGroupOptions,
   RustServer,
+  CommandOptions,
   CommandResponse,
+  CommandFailure,
+  CommandResult,
+  BroadcastOptions,
+  BroadcastResult,
+  ReconcileResult,
+  ResponseParserTypes,
   RustServerInformation,
   FetchedServer,
   RustServerAdvancedInformation,
 } from "./interfaces";
+import type { SubscriptionIntent } from "../socket/interfaces";
 import ServerUtils from "../util/ServerUtils";
 import fetchWithRetry from "../util/fetchWithRetry";
 import CommandHandler from "./CommandHandler";
+import RateLimiter from "./RateLimiter";
+import ServerCommands from "./ServerCommands";
+import ResponseParsers from "./ResponseParsers";
+import Pollers from "./Pollers";
 import Helper from "../helper";
 
 export default class ServerManager {
   private _manager: RCEManager;
-  private _auth: GPortalAuth;
-  private _socket: GPortalSocket;
   private _servers: Map<string, RustServer> = new Map();
-
-  public constructor(
-    manager: RCEManager,
-    auth: GPortalAuth,
-    socket: GPortalSocket
-  ) {
+  private _pending: Set<Promise<boolean>> = new Set();
+  private _groups: Map<string, ServerGroupOptions> = new Map();
+  private _limiter: RateLimiter;
+  private _controller: AbortController = new AbortController();
+  public parsers: ResponseParsers = new ResponseParsers();
+  public pollers: Pollers;
+
+  public constructor(manager: RCEManager) {
     this._manager = manager;
-    this._auth = auth;
-    this._socket = socket;
+    this._limiter = new RateLimiter(manager);
+    this.pollers = new Pollers(manager);
   }
 
   /**
@@ -87,9 +105,124 @@ export default class ServerManager {
    * });
    * ```
    */
-  public async add(opts: ServerOptions) {
+  public add(opts: ServerOptions) {
+    const promise = this.register(this.applyGroup(opts), { ...opts });
+
+    this._pending.add(promise);
+    const done = () => this._pending.delete(promise);
+    promise.then(done, done);
+
+    return promise;
+  }
+
+  /**
+   * @returns {Promise<void>} - Resolves once every pending `add` has finished
+   *
+   * @example
+   * ```js
+   * await manager.servers.ready();
+   * ```
+   */
+  public async ready() {
+    while (this._pending.size) {
+      await Promise.allSettled(this._pending);
+    }
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the group
+   * @param opts {ServerGroupOptions} - Defaults for every server in the group
+   * @returns {void}
+   * @description Defines a group of servers that share tags, intents, refresh settings and so on. Servers join it through the `group` option and their own options take precedence, tags are combined
+   *
+   * @example
+   * ```js
+   * manager.servers.defineGroup("eu-pvp", {
+   *   tags: ["eu", "pvp"],
+   *   intents: [RCEIntent.ConsoleMessages],
+   *   playerRefreshing: true,
+   * });
+   *
+   * await manager.servers.add({
+   *   identifier: "eu-1",
+   *   serverId: 1234567,
+   *   region: "EU",
+   *   group: "eu-pvp",
+   *   tags: ["2x"],
+   * });
+   * ```
+   */
+  public defineGroup(name: string, opts: ServerGroupOptions) {
+    this._groups.set(name, opts);
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the group
+   * @returns {ServerGroupOptions | undefined} - The group defaults
+   */
+  public getGroup(name: string) {
+    return this._groups.get(name);
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the group
+   * @returns {boolean} - Whether a group was removed
+   * @description Removes a group, servers already in it keep their options until they are reconciled
+   */
+  public removeGroup(name: string) {
+    return this._groups.delete(name);
+  }
+
+  private applyGroup(opts: ServerOptions): ServerOptions {
+    const group = opts.group ? this._groups.get(opts.group) : undefined;
+    if (!group) return opts;
+
+    const defined = Object.fromEntries(
+      Object.entries(opts).filter(([, value]) => value !== undefined)
+    );
+
+    return {
+      ...group,
+      ...defined,
+      tags: [...new Set([...(group.tags ?? []), ...(opts.tags ?? [])])],
+      pollers: [
+        ...new Set([...(group.pollers ?? []), ...(opts.pollers ?? [])]),
+      ],
+      refreshIntervals: { ...group.refreshIntervals, ...opts.refreshIntervals },
+    } as ServerOptions;
+  }
+
+  private async register(opts: ServerOptions, original: ServerOptions) {
     this._manager.logger.debug(`Adding Server: ${opts.identifier}`);
 
+    if (opts.group && !this._groups.has(opts.group)) {
+      ServerUtils.error(
+        this._manager,
+        `[${opts.identifier}] Failed To Add Server: Unknown Group (${opts.group})`
+      );
+      return false;
+    }
+
+    if (opts.timezone && !Helper.isTimeZone(opts.timezone)) {
+      ServerUtils.error(
+        this._manager,
+        `[${opts.identifier}] Failed To Add Server: Unknown Timezone (${opts.timezone})`
+      );
+      return false;
+    }
+
+    const account = opts.account ?? DEFAULT_ACCOUNT;
+    if (!this._manager.getAccount(account)) {
+      ServerUtils.error(
+        this._manager,
+        `[${opts.identifier}] Failed To Add Server: Unknown Account (${account})`
+      );
+      return false;
+    }
+
     if (!Array.isArray(opts.serverId) || !opts.serverId[1]) {
       opts.serverId = [
         Array.isArray(opts.serverId) ? opts.serverId[0] : opts.serverId,
@@ -109,7 +242,8 @@ export default class ServerManager {
       const sid = await this.fetchId(
         opts.identifier,
         opts.serverId[0],
-        opts.region
+        opts.region,
+        account
       );
 
       if (sid) {
@@ -128,7 +262,8 @@ export default class ServerManager {
     const status = await this.fetchStatus(
       opts.identifier,
       opts.serverId[1],
-      opts.region
+      opts.region,
+      account
     );
     if (!status) {
       ServerUtils.error(
@@ -146,56 +281,33 @@ export default class ServerManager {
       return false;
     }
 
+    this._limiter.configure(opts.identifier, opts.rateLimit);
     this._servers.set(opts.identifier, {
       identifier: opts.identifier,
       serverId: opts.serverId,
       region: opts.region,
-      intervals: {
-        playerRefreshing: {
-          enabled: opts.playerRefreshing ?? false,
-          interval: opts.playerRefreshing
-            ? setInterval(() => {
-                const s = this.get(opts.identifier);
-                if (s?.status === "RUNNING") {
-                  this.updatePlayers(opts.identifier);
-                }
-              }, 60_000)
-            : undefined,
-        },
-        radioRefreshing: {
-          enabled: opts.radioRefreshing ?? false,
-          interval: opts.radioRefreshing
-            ? setInterval(() => {
-                const s = this.get(opts.identifier);
-                if (s?.status === "RUNNING") {
-                  this.updateBroadcasters(opts.identifier);
-                }
-              }, 30_000)
-            : undefined,
-        },
-        extendedEventRefreshing: {
-          enabled: opts.extendedEventRefreshing ?? false,
-          interval: opts.extendedEventRefreshing
-            ? setInterval(() => {
-                const s = this.get(opts.identifier);
-                if (s?.status === "RUNNING") {
-                  this.fetchGibs(opts.identifier);
-                }
-              }, 60_000)
-            : undefined,
-        },
-      },
+      account,
+      options: original,
+      group: opts.group,
+      tags: opts.tags ?? [],
+      timezone: opts.timezone ?? "UTC",
+      backfill: opts.backfill ?? false,
+      checkpoint: opts.backfill
+        ? await this.loadCheckpoint(opts.identifier)
+        : undefined,
+      intervals: this.getIntervals(opts),
       flags: [],
       state: opts.state ?? [],
       status: status as RustServer["status"],
       players: [],
       frequencies: [],
-      intents: opts.intents,
+      intents: opts.intents ?? [RCEIntent.All],
       silent: opts.silent ?? false,
     });
 
     const server = this._servers.get(opts.identifier);
-    this._socket.addServer(server);
+    this.pollers.schedule(server);
+    this._manager.getAccount(account).socket.addServer(server);
 
     this._manager.logger.debug(
       `[${server.identifier}] Server Status: ${status}`
@@ -203,21 +315,208 @@ export default class ServerManager {
 
     if (status === "RUNNING") {
       await ServerUtils.setReady(this._manager, server, true);
+      await this.pollers.run(server);
+    }
 
-      if (opts.playerRefreshing) {
-        await this.updatePlayers(opts.identifier);
-      }
+    return true;
+  }
 
-      if (opts.radioRefreshing) {
-        await this.updateBroadcasters(opts.identifier);
-      }
+  private async loadCheckpoint(identifier: string) {
+    try {
+      return (await this._manager.checkpoints.get(identifier)) ?? undefined;
+    } catch (error) {
+      this._manager.logger.warn(
+        `[${identifier}] Failed To Load Log Checkpoint: ${error}`
+      );
+      return undefined;
+    }
+  }
 
-      if (opts.extendedEventRefreshing) {
-        await this.fetchGibs(opts.identifier);
-      }
+  private getIntervals(opts: ServerOptions) {
+    // `pollers` can also switch on the built-in refreshers by name
+    const enabled = {
+      playerRefreshing: opts.playerRefreshing ?? false,
+      radioRefreshing: opts.radioRefreshing ?? false,
+      extendedEventRefreshing: opts.extendedEventRefreshing ?? false,
+      ...Object.fromEntries((opts.pollers ?? []).map((name) => [name, true])),
+    };
+
+    const intervals: RustServer["intervals"] = {};
+    Object.entries(enabled).forEach(([name, on]) => {
+      intervals[name] = {
+        enabled: on,
+        interval: opts.refreshIntervals?.[name],
+      };
+    });
+
+    return intervals;
+  }
+
+  /**
+   *
+   * @param opts {ServerOptions[]} - Every server that should be registered
+   * @param groups {Record<string, ServerGroupOptions>} - Every group that should be defined, groups that are missing are removed. The groups are left alone when omitted
+   * @returns {Promise<ReconcileResult>} - The identifiers of the servers that were added, removed and updated
+   * @description Brings the registered servers in line with the given options without touching the others. Servers that are missing are removed, new ones are added, and changed intents, tags or refresh settings are applied in place so players, frequencies and the untouched subscriptions are kept. A changed serverId, region or account re-adds the server
+   *
+   * @example
+   * ```js
+   * const { added, removed, updated } = await manager.servers.reconcile([
+   *   { identifier: "eu-1", serverId: 1234567, region: "EU", intents: [RCEIntent.All] },
+   * ]);
+   * ```
+   */
+  public async reconcile(
+    opts: ServerOptions[],
+    groups?: Record<string, ServerGroupOptions>
+  ): Promise<ReconcileResult> {
+    const result: ReconcileResult = { added: [], removed: [], updated: [] };
+
+    // Servers that are still being added would otherwise be added twice
+    await this.ready();
+
+    if (groups) {
+      this._groups.forEach((_, name) => {
+        if (!(name in groups)) this.removeGroup(name);
+      });
+      Object.entries(groups).forEach(([name, group]) =>
+        this.defineGroup(name, group)
+      );
     }
 
-    return true;
+    const desired = new Map(
+      opts.map((options) => [options.identifier, options])
+    );
+
+    this._servers.forEach((server) => {
+      if (desired.has(server.identifier)) return;
+
+      this.remove(server);
+      result.removed.push(server.identifier);
+    });
+
+    await Promise.all(
+      Array.from(desired.values()).map(async (options) => {
+        const server = this._servers.get(options.identifier);
+        const serverId = Array.isArray(options.serverId)
+          ? options.serverId[0]
+          : options.serverId;
+
+        if (!server) {
+          if (await this.add(options)) result.added.push(options.identifier);
+        } else if (
+          server.serverId[0] !== serverId ||
+          server.region !== options.region ||
+          server.account !== (options.account ?? DEFAULT_ACCOUNT)
+        ) {
+          this.remove(server);
+          if (await this.add(options)) result.updated.push(options.identifier);
+        } else if (
+          await this.patch(server, this.applyGroup(options), options)
+        ) {
+          result.updated.push(options.identifier);
+        }
+      })
+    );
+
+    this._manager.logger.info(
+      `Servers Reconciled: ${result.added.length} Added, ${result.removed.length} Removed, ${result.updated.length} Updated`
+    );
+
+    return result;
+  }
+
+  private async patch(
+    server: RustServer,
+    opts: ServerOptions,
+    original: ServerOptions
+  ) {
+    if (opts.group && !this._groups.has(opts.group)) {
+      ServerUtils.error(
+        this._manager,
+        `[${server.identifier}] Failed To Update Server: Unknown Group (${opts.group})`,
+        server
+      );
+      return false;
+    }
+
+    if (opts.timezone && !Helper.isTimeZone(opts.timezone)) {
+      ServerUtils.error(
+        this._manager,
+        `[${server.identifier}] Failed To Update Server: Unknown Timezone (${opts.timezone})`,
+        server
+      );
+      return false;
+    }
+
+    // Like `add`, a server that starts backfilling resumes from its saved checkpoint
+    if (opts.backfill && !server.backfill) {
+      server.checkpoint = await this.loadCheckpoint(server.identifier);
+    }
+
+    let changed = false;
+
+    const streams: SubscriptionIntent[] = [
+      RCEIntent.ConsoleMessages,
+      RCEIntent.ServiceState,
+      RCEIntent.ServiceSensors,
+    ];
+    const expand = (intents: string[]) =>
+      streams.filter(
+        (intent) => intents.includes(RCEIntent.All) || intents.includes(intent)
+      );
+
+    const intents = opts.intents ?? [RCEIntent.All];
+    const current = expand(server.intents);
+    const wanted = expand(intents);
+    const socket = this._manager.getAccount(server.account)?.socket;
+
+    wanted
+      .filter((intent) => !current.includes(intent))
+      .forEach((intent) => socket?.subscribe(server, intent));
+    current
+      .filter((intent) => !wanted.includes(intent))
+      .forEach((intent) => socket?.unsubscribe(server, intent));
+
+    if (wanted.join() !== current.join()) changed = true;
+    server.intents = intents;
+
+    const intervals = this.getIntervals(opts);
+    if (JSON.stringify(intervals) !== JSON.stringify(server.intervals)) {
+      server.intervals = intervals;
+      this.pollers.schedule(server);
+      changed = true;
+    }
+
+    const tags = opts.tags ?? [];
+    const timezone = opts.timezone ?? "UTC";
+    if (
+      server.group !== opts.group ||
+      server.silent !== (opts.silent ?? false) ||
+      server.timezone !== timezone ||
+      server.backfill !== (opts.backfill ?? false) ||
+      [...server.tags].sort().join() !== [...tags].sort().join()
+    ) {
+      server.group = opts.group;
+      server.silent = opts.silent ?? false;
+      server.tags = tags;
+      server.timezone = timezone;
+      server.backfill = opts.backfill ?? false;
+      changed = true;
+    }
+
+    if (this._limiter.configure(server.identifier, opts.rateLimit)) {
+      changed = true;
+    }
+
+    server.options = { ...original };
+
+    if (changed) {
+      this._manager.logger.debug(`[${server.identifier}] Server Reconciled`);
+      this.update(server);
+    }
+
+    return changed;
   }
 
   /**
@@ -250,6 +549,17 @@ export default class ServerManager {
     this._servers.forEach((server) => this.remove(server));
   }
 
+  /**
+   * @returns {void}
+   * @description Removes every server and cancels the requests and pollers that are still running, called by `RCEManager.destroy`
+   */
+  public destroy() {
+    this.removeAll();
+    this._controller.abort();
+    this._limiter.destroy();
+    this.pollers.destroy();
+  }
+
   /**
    *
    * @param identifiers {string[]} - The server identifiers to remove
@@ -284,15 +594,92 @@ export default class ServerManager {
   public remove(server: RustServer) {
     this._manager.logger.debug(`[${server.identifier}] Removing Server`);
 
-    clearInterval(server.intervals.playerRefreshing.interval);
-    clearInterval(server.intervals.radioRefreshing.interval);
-    clearInterval(server.intervals.extendedEventRefreshing.interval);
-    this._socket.removeServer(server);
+    this.pollers.remove(server.identifier);
+    this._manager.getAccount(server.account)?.socket.removeServer(server);
+    CommandHandler.clear(server.identifier);
+    this._limiter.remove(server.identifier);
     this._servers.delete(server.identifier);
 
     this._manager.logger.info(`[${server.identifier}] Server Removed`);
   }
 
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @param intent {SubscriptionIntent} - The stream to subscribe to
+   * @returns {boolean} - Whether the subscription was started
+   * @description Subscribes a server to a single WebSocket stream
+   *
+   * @example
+   * ```js
+   * manager.servers.subscribe("my-server-id", RCEIntent.ServiceSensors);
+   * ```
+   */
+  public subscribe(identifier: string, intent: SubscriptionIntent) {
+    const server = this.get(identifier);
+    if (!server) {
+      ServerUtils.error(
+        this._manager,
+        `[${identifier}] Failed To Subscribe: Invalid Server`
+      );
+      return false;
+    }
+
+    if (
+      !server.intents.includes(RCEIntent.All) &&
+      !server.intents.includes(intent)
+    ) {
+      server.intents.push(intent);
+      this.update(server);
+    }
+
+    return (
+      this._manager
+        .getAccount(server.account)
+        ?.socket.subscribe(server, intent) ?? false
+    );
+  }
+
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @param intent {SubscriptionIntent} - The stream to unsubscribe from
+   * @returns {boolean} - Whether a subscription was stopped
+   * @description Unsubscribes a server from a single WebSocket stream
+   *
+   * @example
+   * ```js
+   * manager.servers.unsubscribe("my-server-id", RCEIntent.ServiceSensors);
+   * ```
+   */
+  public unsubscribe(identifier: string, intent: SubscriptionIntent) {
+    const server = this.get(identifier);
+    if (!server) {
+      ServerUtils.error(
+        this._manager,
+        `[${identifier}] Failed To Unsubscribe: Invalid Server`
+      );
+      return false;
+    }
+
+    if (server.intents.includes(RCEIntent.All)) {
+      server.intents = [
+        RCEIntent.ConsoleMessages,
+        RCEIntent.ServiceState,
+        RCEIntent.ServiceSensors,
+      ];
+    }
+
+    server.intents = server.intents.filter((i) => i !== intent);
+    this.update(server);
+
+    return (
+      this._manager
+        .getAccount(server.account)
+        ?.socket.unsubscribe(server, intent) ?? false
+    );
+  }
+
   /**
    *
    * @param identifier {string} - The server identifier
@@ -322,6 +709,33 @@ export default class ServerManager {
     return this._servers;
   }
 
+  /**
+   *
+   * @param tag {string} - The tag to look for
+   * @returns {RustServer[]} - Every server with the tag
+   *
+   * @example
+   * ```js
+   * const servers = manager.servers.getByTag("pvp");
+   * ```
+   */
+  public getByTag(tag: string) {
+    return Array.from(this._servers.values()).filter((server) =>
+      server.tags.includes(tag)
+    );
+  }
+
+  /**
+   *
+   * @param name {string} - The name of the group
+   * @returns {RustServer[]} - Every server in the group
+   */
+  public getByGroup(name: string) {
+    return Array.from(this._servers.values()).filter(
+      (server) => server.group === name
+    );
+  }
+
   /**
    *
    * @param identifier - The server identifier
@@ -351,18 +765,16 @@ export default class ServerManager {
       return null;
     }
 
-    const data: RustServerInformation = Helper.cleanOutput(
-      info.response,
-      true,
-      rawHostname
-    );
+    const data: RustServerInformation = rawHostname
+      ? Helper.cleanOutput(info.response, true, true)
+      : this.parsers.parse("serverinfo", info.response);
     return data;
   }
 
   public async fetchAdvanced(
     identifier: string
   ): Promise<RustServerAdvancedInformation> {
-    const token = this._auth?.accessToken;
+    const token = this.getToken(this._servers.get(identifier)?.account);
     if (!token) {
       ServerUtils.error(
         this._manager,
@@ -482,8 +894,8 @@ export default class ServerManager {
    *
    * @param identifier - The server identifier
    * @param command - The command to send
-   * @param response - Whether to wait for a response
-   * @returns {Promise<CommandResponse>} - The command response
+   * @param options - Whether to wait for a response, or the response options
+   * @returns {Promise<CommandResponse>} - The command response, failures carry a `code` from `CommandErrorCode`
    * @remarks Requests are retried when transient HTTP errors occur.
    *
    * @example
@@ -495,19 +907,40 @@ export default class ServerManager {
    * ```js
    * const response = await manager.servers.command("my-server-id", "getauthlevels", true);
    * ```
+   *
+   * @example
+   * ```js
+   * const response = await manager.servers.command("my-server-id", "Users", {
+   *   response: true,
+   *   timeout: 10_000,
+   *   signal: AbortSignal.timeout(15_000),
+   *   expect: /\d+users/,
+   * });
+   *
+   * if (!response.ok && response.code === CommandErrorCode.Timeout) {
+   *   console.log("The server did not respond in time");
+   * }
+   * ```
    */
   public async command(
     identifier: string,
     command: string,
-    response: boolean = false
+    options: boolean | CommandOptions = false
   ): Promise<CommandResponse> {
-    const token = this._auth?.accessToken;
+    const opts: CommandOptions =
+      typeof options === "boolean" ? { response: options } : options;
+
+    const token = this.getToken(this._servers.get(identifier)?.account);
     if (!token) {
       ServerUtils.error(
         this._manager,
         `[${identifier}] Failed To Send Command: No Access Token`
       );
-      return { ok: false, error: "No Access Token" };
+      return {
+        ok: false,
+        code: CommandErrorCode.NoAccessToken,
+        error: "No Access Token",
+      };
     }
 
     const server = this._servers.get(identifier);
@@ -516,7 +949,11 @@ export default class ServerManager {
         this._manager,
         `[${identifier}] Failed To Send Command: Invalid Server`
       );
-      return { ok: false, error: "Invalid Server" };
+      return {
+        ok: false,
+        code: CommandErrorCode.InvalidServer,
+        error: "Invalid Server",
+      };
     }
 
     if (server.status !== "RUNNING") {
@@ -525,349 +962,283 @@ export default class ServerManager {
           `[${identifier}] Failed To Send Command: Server Not Running`
         );
       }
-      return { ok: false, error: "Server Not Running" };
+      return {
+        ok: false,
+        code: CommandErrorCode.NotRunning,
+        error: "Server Not Running",
+      };
     }
 
-    this._manager.logger.debug(`[${identifier}] Sending Command: ${command}`);
-
-    const payload = {
-      operationName: "sendConsoleMessage",
-      variables: {
-        sid: server.serverId[1],
-        region: server.region,
-        message: command,
-      },
-      query:
-        "mutation sendConsoleMessage($sid: Int!, $region: REGION!, $message: String!) {\n  sendConsoleMessage(rsid: {id: $sid, region: $region}, message: $message) {\n    ok\n    __typename\n  }\n}",
-    };
-
-    if (response) {
-      return new Promise(async (resolve, reject) => {
-        CommandHandler.add({
-          identifier,
-          command,
-          resolve,
-          reject,
-        });
-
-        try {
-          const response = await fetchWithRetry(GPortalRoutes.Api, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${token}`,
-            },
-            body: JSON.stringify(payload),
-          });
-
-          if (!response.ok) {
-            ServerUtils.error(
-              this._manager,
-              `Failed To Send Command: HTTP ${response.status} ${response.statusText}`,
-              server
-            );
-            CommandHandler.remove(CommandHandler.get(identifier, command));
-            resolve({
-              ok: false,
-              error: `HTTP ${response.status} ${response.statusText}`,
-            });
-          }
+    // A destroyed limiter rejects, the command is then cancelled
+    const acquired = await this._limiter
+      .acquire(server, opts.priority, opts.signal)
+      .catch(() => false);
 
-          const data = await response.json();
-          if (!data?.data?.sendConsoleMessage?.ok) {
-            ServerUtils.error(
-              this._manager,
-              "Failed To Send Command: AioRpcError",
-              server
-            );
-            CommandHandler.remove(CommandHandler.get(identifier, command));
-            resolve({
-              ok: false,
-              error: "AioRpcError",
-            });
-          }
-
-          const cmd = CommandHandler.get(identifier, command);
-          if (cmd) {
-            cmd.timeout = setTimeout(() => {
-              CommandHandler.remove(CommandHandler.get(identifier, command));
-              resolve({
-                ok: true,
-                response: undefined,
-              });
-            }, 3_000);
-          }
-        } catch (error) {
-          CommandHandler.remove(CommandHandler.get(identifier, command));
-          resolve({
+    if (!acquired) {
+      return opts.signal?.aborted
+        ? {
             ok: false,
-            error: error.message,
-          });
-        }
-      });
-    } else {
-      try {
-        const response = await fetchWithRetry(GPortalRoutes.Api, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify(payload),
-        });
-
-        if (!response.ok) {
-          ServerUtils.error(
-            this._manager,
-            `Failed To Send Command: HTTP ${response.status} ${response.statusText}`,
-            server
-          );
-          return {
+            code: CommandErrorCode.Aborted,
+            error: "Command Aborted",
+          }
+        : {
             ok: false,
-            error: `HTTP ${response.status} ${response.statusText}`,
+            code: CommandErrorCode.Cancelled,
+            error: "Command Cancelled",
           };
-        }
-
-        return {
-          ok: true,
-          response: undefined,
-        };
-      } catch (error) {
-        ServerUtils.error(
-          this._manager,
-          `Failed To Send Command: ${error}`,
-          server
-        );
-        return {
-          ok: false,
-          error: error.message,
-        };
-      }
-    }
-  }
-
-  private async updateBroadcasters(identifier) {
-    const server = this.get(identifier);
-    if (!server) {
-      this._manager.logger.warn(
-        `[${identifier}] Failed To Update Broadcasters: Invalid Server`
-      );
-      return;
     }
 
-    this._manager.logger.debug(`[${server.identifier}] Updating Broadcasters`);
-
-    const broadcasters = await this.command(
-      server.identifier,
-      "rf.listboardcaster",
-      true
-    );
-    if (!broadcasters?.response) {
-      if (!server.silent) {
-        this._manager.logger.warn(
-          `[${server.identifier}] Failed To Update Broadcasters`
-        );
-      }
+    this._manager.logger.debug(`[${identifier}] Sending Command: ${command}`);
 
-      return;
+    if (opts.response) {
+      return CommandHandler.queue(
+        identifier,
+        command,
+        () => this.send(server, token, command, opts.signal),
+        opts
+      );
     }
 
-    const broadcasts = [];
-
-    const regex =
-      /\[(\d+) MHz\] Position: \(([\d.-]+), ([\d.-]+), ([\d.-]+)\), Range: (\d+)/g;
-    let match;
-
-    while ((match = regex.exec(broadcasters.response)) !== null) {
-      const frequency = parseInt(match[1], 10);
-      const coordinates = [
-        parseFloat(match[2]),
-        parseFloat(match[3]),
-        parseFloat(match[4]),
-      ];
-      const range = parseInt(match[5], 10);
+    const failure = await this.send(server, token, command, opts.signal);
+    if (failure) return failure;
 
-      broadcasts.push({ frequency, coordinates, range });
-    }
-
-    server.frequencies.forEach((freq) => {
-      if (!broadcasts.find((b) => parseInt(b.frequency) === freq)) {
-        this._manager.events.emit(RCEEvent.FrequencyLost, {
-          server,
-          frequency: freq,
-        });
-
-        server.frequencies = server.frequencies.filter((f) => f !== freq);
-      }
-    });
-
-    broadcasts.forEach((broadcast) => {
-      if (server.frequencies.includes(broadcast.frequency)) return;
-      server.frequencies.push(broadcast.frequency);
-
-      if (broadcast.frequency === 4765) {
-        this._manager.events.emit(RCEEvent.EventStart, {
-          server,
-          event: "Small Oil Rig",
-          special: false,
-        });
-      } else if (broadcast.frequency === 4768) {
-        this._manager.events.emit(RCEEvent.EventStart, {
-          server,
-          event: "Oil Rig",
-          special: false,
-        });
-      }
-
-      this._manager.events.emit(RCEEvent.FrequencyGained, {
-        server,
-        frequency: broadcast.frequency,
-        coordinates: broadcast.coordinates,
-        range: broadcast.range,
-      });
-    });
-
-    this.update(server);
-
-    this._manager.logger.debug(`[${server.identifier}] Broadcasters Updated`);
+    return {
+      ok: true,
+      response: undefined,
+    };
   }
 
-  private async fetchGibs(identifier: string) {
-    const server = this.get(identifier);
-    if (!server) {
-      this._manager.logger.warn(
-        `[${identifier}] Failed To Fetch Gibs: Invalid Server`
+  /**
+   *
+   * @param command {string} - The command to send
+   * @param options {BroadcastOptions} - Which servers to send to (`{ tags, identifiers, group }` or a predicate), how many at once and the command options
+   * @returns {Promise<BroadcastResult>} - The response of every server, along with which succeeded and failed
+   * @description Sends a command to many servers at once
+   *
+   * @example
+   * ```js
+   * const result = await manager.servers.broadcast("say Restarting in 5 minutes", {
+   *   filter: (server) => server.region === "EU",
+   *   concurrency: 3,
+   * });
+   *
+   * await manager.servers.broadcast("say Double XP tonight", {
+   *   filter: { tags: ["pvp"] },
+   * });
+   *
+   * result.failed.forEach((identifier) => {
+   *   console.log(identifier, result.results.get(identifier).error);
+   * });
+   * ```
+   */
+  public async broadcast(
+    command: string,
+    options: BroadcastOptions = {}
+  ): Promise<BroadcastResult> {
+    const { filter, concurrency = 5, ...commandOptions } = options;
+
+    const servers = Array.from(this._servers.values()).filter((server) => {
+      if (!filter) return true;
+      if (typeof filter === "function") return filter(server);
+
+      const { tags, identifiers, group } = filter;
+      return (
+        (!tags || server.tags.some((tag) => tags.includes(tag))) &&
+        (!identifiers || identifiers.includes(server.identifier)) &&
+        (group === undefined || server.group === group)
       );
-      return;
-    }
-
-    this._manager.logger.debug(`[${server.identifier}] Fetching Gibs`);
+    });
 
-    const bradley = await this.command(
-      server.identifier,
-      "find_entity servergibs_bradley",
-      true
-    );
-    const heli = await this.command(
-      server.identifier,
-      "find_entity servergibs_patrolhelicopter",
-      true
-    );
+    const results: Map<string, CommandResponse> = new Map();
+    const queue = [...servers];
 
-    if (!bradley?.response || !heli?.response) {
-      if (!server.silent) {
-        this._manager.logger.warn(
-          `[${server.identifier}] Failed To Fetch Gibs`
+    const worker = async () => {
+      while (queue.length) {
+        const server = queue.shift();
+        results.set(
+          server.identifier,
+          await this.command(server.identifier, command, commandOptions)
         );
       }
+    };
 
-      return;
-    }
-
-    if (
-      bradley.response.includes("servergibs_bradley") &&
-      !server.flags.includes("BRADLEY")
-    ) {
-      server.flags.push("BRADLEY");
+    await Promise.all(
+      Array.from(
+        { length: Math.min(Math.max(concurrency, 1), servers.length) },
+        worker
+      )
+    );
 
-      setTimeout(() => {
-        const s = this.get(server.identifier);
-        if (s) {
-          s.flags = s.flags.filter((f) => f !== "BRADLEY");
-          this.update(s);
-        }
-      }, 60_000 * 10);
+    const succeeded = servers
+      .filter((server) => results.get(server.identifier).ok)
+      .map((server) => server.identifier);
+    const failed = servers
+      .filter((server) => !results.get(server.identifier).ok)
+      .map((server) => server.identifier);
 
-      this._manager.events.emit(RCEEvent.EventStart, {
-        server,
-        event: "Bradley APC Debris",
-        special: false,
-      });
+    if (failed.length) {
+      this._manager.logger.warn(
+        `Broadcast Partially Failed: ${command} (${failed.length}/${servers.length} Failed)`
+      );
     }
 
-    if (
-      heli.response.includes("servergibs_patrolhelicopter") &&
-      !server.flags.includes("HELICOPTER")
-    ) {
-      server.flags.push("HELICOPTER");
+    return { results, succeeded, failed };
+  }
 
-      setTimeout(() => {
-        const s = this.get(server.identifier);
-        if (s) {
-          s.flags = s.flags.filter((f) => f !== "HELICOPTER");
-          this.update(s);
-        }
-      }, 60_000 * 10);
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @param command {string} - The command to send
+   * @param options {CommandOptions} - Options passed to `command`, a response is always awaited
+   * @returns {Promise<CommandResult>} - The response, parsed by the parser registered for the command
+   *
+   * @example
+   * ```js
+   * const players = await manager.servers.query("my-server-id", "Users");
+   * if (players.ok) console.log(players.data);
+   * ```
+   */
+  public async query<K extends keyof ResponseParserTypes>(
+    identifier: string,
+    command: K,
+    options?: CommandOptions
+  ): Promise<CommandResult<ResponseParserTypes[K]>>;
+  public async query<T = any>(
+    identifier: string,
+    command: string,
+    options?: CommandOptions
+  ): Promise<CommandResult<T>>;
+  public async query(
+    identifier: string,
+    command: string,
+    options: CommandOptions = {}
+  ): Promise<CommandResult<any>> {
+    const result = await this.command(identifier, command, {
+      ...options,
+      response: true,
+    });
+    if (!result.ok) return result;
 
-      this._manager.events.emit(RCEEvent.EventStart, {
-        server,
-        event: "Patrol Helicopter Debris",
-        special: false,
-      });
-    }
+    return { ...result, data: this.parsers.parse(command, result.response) };
+  }
 
-    this.update(server);
+  /**
+   *
+   * @param identifier {string} - The server identifier
+   * @returns {ServerCommands} - Typed builders for common admin commands, sent through `command`
+   *
+   * @example
+   * ```js
+   * const commands = manager.servers.commands("my-server-id");
+   *
+   * await commands.giveItem("Player", "rifle.ak", 1);
+   * await commands.kick("Player", "Breaking the rules");
+   * ```
+   */
+  public commands(identifier: string) {
+    return new ServerCommands(this._manager, identifier);
+  }
 
-    this._manager.logger.debug(`[${server.identifier}] Gibs Fetched`);
+  /**
+   *
+   * @param identifier {string} - The server identifier, every server when omitted
+   * @returns {number} - How many commands are queued, waiting for either the rate limit or a previous response
+   * @description Commands queue up when they are sent faster than the rate limit allows
+   *
+   * @example
+   * ```js
+   * const depth = manager.servers.queueDepth("my-server-id");
+   * ```
+   */
+  public queueDepth(identifier?: string) {
+    return this._limiter.depth(identifier) + CommandHandler.depth(identifier);
   }
 
-  private async updatePlayers(identifier: string) {
-    const server = this.get(identifier);
-    if (!server) {
-      this._manager.logger.warn(
-        `[${identifier}] Failed To Update Players: Invalid Server`
-      );
-      return;
-    }
+  private async send(
+    server: RustServer,
+    token: string,
+    command: string,
+    signal?: AbortSignal
+  ): Promise<CommandFailure | void> {
+    const payload = {
+      operationName: "sendConsoleMessage",
+      variables: {
+        sid: server.serverId[1],
+        region: server.region,
+        message: command,
+      },
+      query:
+        "mutation sendConsoleMessage($sid: Int!, $region: REGION!, $message: String!) {\n  sendConsoleMessage(rsid: {id: $sid, region: $region}, message: $message) {\n    ok\n    __typename\n  }\n}",
+    };
 
-    this._manager.logger.debug(`[${server.identifier}] Updating Players`);
+    try {
+      const response = await fetchWithRetry(GPortalRoutes.Api, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(payload),
+        // Destroying the manager cancels requests that are still retrying
+        signal: signal
+          ? AbortSignal.any([signal, this._controller.signal])
+          : this._controller.signal,
+      });
 
-    const players = await this.command(server.identifier, "Users", true);
-    if (!players?.response) {
-      if (!server.silent) {
-        this._manager.logger.warn(
-          `[${server.identifier}] Failed To Update Players`
+      if (!response.ok) {
+        ServerUtils.error(
+          this._manager,
+          `Failed To Send Command: HTTP ${response.status} ${response.statusText}`,
+          server
         );
+        return {
+          ok: false,
+          code: CommandErrorCode.Http,
+          error: `HTTP ${response.status} ${response.statusText}`,
+        };
       }
 
-      return;
-    }
-
-    const playerlist = players.response
-      .match(/"(.*?)"/g)
-      .map((ign) => ign.replace(/"/g, ""));
-    playerlist.shift();
-
-    const { joined, left } = Helper.comparePopulation(
-      server.players,
-      playerlist
-    );
-
-    joined.forEach((player) => {
-      this._manager.events.emit(RCEEvent.PlayerJoined, {
-        server,
-        ign: player,
-      });
-    });
-
-    left.forEach((player) => {
-      this._manager.events.emit(RCEEvent.PlayerLeft, {
-        server,
-        ign: player,
-      });
-    });
-
-    server.players = playerlist;
-    this.update(server);
+      const data = await response.json();
+      if (!data?.data?.sendConsoleMessage?.ok) {
+        ServerUtils.error(
+          this._manager,
+          "Failed To Send Command: AioRpcError",
+          server
+        );
+        return {
+          ok: false,
+          code: CommandErrorCode.AioRpc,
+          error: "AioRpcError",
+        };
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return {
+          ok: false,
+          code: CommandErrorCode.Aborted,
+          error: "Command Aborted",
+        };
+      }
 
-    this._manager.events.emit(RCEEvent.PlayerListUpdated, {
-      server,
-      players: playerlist,
-      joined,
-      left,
-    });
+      if (this._controller.signal.aborted) {
+        return {
+          ok: false,
+          code: CommandErrorCode.Cancelled,
+          error: "Command Cancelled",
+        };
+      }
 
-    this._manager.logger.debug(`[${server.identifier}] Players Updated`);
+      ServerUtils.error(
+        this._manager,
+        `Failed To Send Command: ${error}`,
+        server
+      );
+      return {
+        ok: false,
+        code: CommandErrorCode.Network,
+        error: error.message,
+      };
+    }
   }
 
   /**
@@ -890,9 +1261,17 @@ export default class ServerManager {
    * ```js
    * const servers = await manager.servers.fetch();
    * ```
+   *
+   * @example
+   * ```js
+   * const servers = await manager.servers.fetch("EU", "eu-account");
+   * ```
    */
-  public async fetch(region?: "US" | "EU"): Promise<FetchedServer[]> {
-    const token = this._auth?.accessToken;
+  public async fetch(
+    region?: "US" | "EU",
+    account: string = DEFAULT_ACCOUNT
+  ): Promise<FetchedServer[]> {
+    const token = this.getToken(account);
     if (!token) {
       this._manager.logger.warn("Failed To Fetch Servers: No Access Token");
       return [];
@@ -901,8 +1280,8 @@ export default class ServerManager {
     this._manager.logger.debug("Fetching Servers");
 
     if (!region) {
-      const eu = await this.fetch("EU");
-      const us = await this.fetch("US");
+      const eu = await this.fetch("EU", account);
+      const us = await this.fetch("US", account);
       return [...eu, ...us];
     }
 
@@ -979,7 +1358,7 @@ export default class ServerManager {
    * ```
    */
   public async stop(identifier: string, force: boolean = false) {
-    const token = this._auth?.accessToken;
+    const token = this.getToken(this._servers.get(identifier)?.account);
     if (!token) {
       ServerUtils.error(
         this._manager,
@@ -1054,7 +1433,7 @@ export default class ServerManager {
    * ```
    */
   public async start(identifier: string) {
-    const token = this._auth?.accessToken;
+    const token = this.getToken(this._servers.get(identifier)?.account);
     if (!token) {
       ServerUtils.error(
         this._manager,
@@ -1120,9 +1499,10 @@ export default class ServerManager {
   private async fetchStatus(
     identifier: string,
     sid: number,
-    region: "EU" | "US"
+    region: "EU" | "US",
+    account: string
   ) {
-    const token = this._auth?.accessToken;
+    const token = this.getToken(account);
     if (!token) {
       ServerUtils.error(
         this._manager,
@@ -1171,8 +1551,13 @@ export default class ServerManager {
     }
   }
 
-  private async fetchId(identifier: string, sid: number, region: "EU" | "US") {
-    const token = this._auth?.accessToken;
+  private async fetchId(
+    identifier: string,
+    sid: number,
+    region: "EU" | "US",
+    account: string
+  ) {
+    const token = this.getToken(account);
     if (!token) {
       ServerUtils.error(
         this._manager,
@@ -1235,4 +1620,8 @@ export default class ServerManager {
       return null;
     }
   }
+
+  private getToken(account: string) {
+    return this._manager.getAccount(account)?.auth.accessToken;
+  }
 }
@@ -1,13 +1,40 @@
+import type { CommandErrorCode, CommandPriority } from "../constants";
+import type RCEManager from "../Manager";
+import type { LogCheckpoint } from "../socket/interfaces";
+
 export interface ServerOptions {
   identifier: string;
   serverId: number | number[];
   region: "EU" | "US";
+  account?: string;
+  group?: string;
+  tags?: string[];
+  timezone?: string;
+  backfill?: boolean;
   state?: any[];
   playerRefreshing?: boolean;
   radioRefreshing?: boolean;
   extendedEventRefreshing?: boolean;
-  intents: string[];
+  refreshIntervals?: RefreshIntervals;
+  pollers?: string[];
+  intents?: string[];
   silent?: boolean;
+  rateLimit?: RateLimitOptions;
+}
+
+// Milliseconds between runs, keyed by poller name, e.g. { playerRefreshing: 30_000 }
+export interface RefreshIntervals {
+  [poller: string]: number;
+}
+
+export type ServerGroupOptions = Omit<
+  ServerOptions,
+  "identifier" | "serverId" | "region" | "group" | "state"
+>;
+
+export interface RateLimitOptions {
+  capacity?: number;
+  refillRate?: number;
 }
 
 export interface FetchedServer {
@@ -21,6 +48,13 @@ export interface RustServer {
   identifier: string;
   serverId: number[]; // url, backend
   region: "EU" | "US";
+  account: string;
+  options: ServerOptions; // As passed to `add`, used to add the server again
+  group?: string;
+  tags: string[];
+  timezone: string; // IANA time zone of the console log dates
+  backfill: boolean;
+  checkpoint?: LogCheckpoint;
   intervals: RustServerIntervals;
   flags: string[];
   state: any[];
@@ -40,24 +74,142 @@ export interface RustServer {
 }
 
 interface RustServerIntervals {
-  playerRefreshing?: { enabled: boolean; interval?: NodeJS.Timeout };
-  radioRefreshing?: { enabled: boolean; interval?: NodeJS.Timeout };
-  extendedEventRefreshing?: { enabled: boolean; interval?: NodeJS.Timeout };
+  playerRefreshing?: RustServerInterval;
+  radioRefreshing?: RustServerInterval;
+  extendedEventRefreshing?: RustServerInterval;
+  [poller: string]: RustServerInterval;
+}
+
+interface RustServerInterval {
+  enabled: boolean;
+  interval?: number; // overrides the poller's default
+}
+
+export interface PollerOptions<T = any> {
+  name: string;
+  interval: number;
+  command?: string;
+  parse?: ResponseParser<T>;
+  run?: (server: RustServer, manager: RCEManager) => Promise<T | undefined>;
+  diff?: (
+    current: T,
+    previous: T | undefined,
+    server: RustServer,
+    manager: RCEManager
+  ) => void;
+  priority?: CommandPriority;
+}
+
+export interface CommandOptions {
+  response?: boolean;
+  timeout?: number;
+  signal?: AbortSignal;
+  expect?: RegExp | ((response: string) => boolean);
+  priority?: CommandPriority;
 }
 
 export interface CommandRequest {
+  id: number;
   identifier: string;
   command: string;
   timestamp?: string;
+  lines: string[];
+  options: CommandOptions;
+  send: () => Promise<CommandFailure | void>;
   resolve: (value: CommandResponse) => void;
-  reject: (reason: any) => void;
   timeout?: ReturnType<typeof setTimeout>;
+  idle?: ReturnType<typeof setTimeout>;
+  abort?: () => void;
+  closed?: boolean;
 }
 
-export interface CommandResponse {
-  ok: boolean;
+export interface CommandSuccess {
+  ok: true;
   response?: string;
-  error?: string;
+}
+
+export interface CommandFailure {
+  ok: false;
+  code: CommandErrorCode;
+  error: string;
+  response?: string;
+}
+
+export type CommandResponse = CommandSuccess | CommandFailure;
+
+export interface BroadcastOptions extends CommandOptions {
+  filter?: BroadcastFilter | ((server: RustServer) => boolean);
+  concurrency?: number;
+}
+
+// Every given field has to match, tags match when the server has at least one of them
+export interface BroadcastFilter {
+  tags?: string[];
+  identifiers?: string[];
+  group?: string;
+}
+
+export interface ReconcileResult {
+  added: string[];
+  removed: string[];
+  updated: string[];
+}
+
+export interface BroadcastResult {
+  results: Map<string, CommandResponse>;
+  succeeded: string[];
+  failed: string[];
+}
+
+export type CommandResult<T> = (CommandSuccess & { data?: T }) | CommandFailure;
+
+export type ServerRole = "owner" | "moderator" | "admin";
+
+// The trailing settings are passed in the order the console expects them
+export interface CustomZoneOptions {
+  position: [number, number, number];
+  rotation?: number;
+  type?: "Sphere" | "Box";
+  size: number | [number, number, number]; // Radius for spheres, x, y and z for boxes
+  pvpMode?: number;
+  npcDamage?: number;
+  radiationDamage?: number;
+  buildingDamage?: number;
+  building?: number;
+}
+
+export type ResponseParser<T = any> = (response: string, command: string) => T;
+
+export interface ResponseParserTypes {
+  users: string[];
+  getauthlevels: RustPlayerAuthLevel[];
+  banlist: RustBan[];
+  banlistex: RustBan[];
+  serverinfo: RustServerInformation;
+  "rf.listboardcaster": RustRadioBroadcaster[];
+  find_entity: RustEntity[];
+}
+
+export interface RustPlayerAuthLevel {
+  ign: string;
+  level: string;
+}
+
+export interface RustBan {
+  ign: string;
+  reason?: string;
+}
+
+export interface RustRadioBroadcaster {
+  frequency: number;
+  coordinates: number[];
+  range: number;
+}
+
+export interface RustEntity {
+  name: string;
+  id?: number;
+  position?: number[];
 }
 
 export interface RustServerInformation {
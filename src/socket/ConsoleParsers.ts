@@ -0,0 +1,475 @@
+import type {
+  ConsoleParser,
+  ConsoleParserContext,
+  ConsoleParserPosition,
+} from "./interfaces";
+import { QuickChat, RCEEvent, RegularExpressions } from "../constants";
+import ServerUtils from "../util/ServerUtils";
+import Helper from "../helper";
+
+const EVENTS = {
+  event_airdrop: {
+    name: "Airdrop",
+    special: false,
+  },
+  event_cargoship: {
+    name: "Cargo Ship",
+    special: false,
+  },
+  event_cargoheli: {
+    name: "Chinook",
+    special: false,
+  },
+  event_helicopter: {
+    name: "Patrol Helicopter",
+    special: false,
+  },
+  event_halloween: {
+    name: "Halloween",
+    special: true,
+  },
+  event_xmas: {
+    name: "Christmas",
+    special: true,
+  },
+  event_easter: {
+    name: "Easter",
+    special: true,
+  },
+};
+
+const CHAT_TYPES = {
+  "[CHAT TEAM]": "team",
+  "[CHAT SERVER]": "server",
+  "[CHAT LOCAL]": "local",
+} as const;
+
+const BUILT_IN: ConsoleParser<any>[] = [
+  // Chat lines stop here so what players type cannot trigger other events
+  {
+    name: RCEEvent.QuickChat,
+    match: RegularExpressions.QuickChat,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.QuickChat, {
+        server,
+        timestamp,
+        type: CHAT_TYPES[match[1]],
+        ign: match[3],
+        message: match[4] as QuickChat,
+        phrase: Helper.getQuickChatPhrase(match[4]),
+      });
+      return true;
+    },
+  },
+  {
+    name: RCEEvent.PlayerChat,
+    match: RegularExpressions.PlayerChat,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.PlayerChat, {
+        server,
+        timestamp,
+        channel: CHAT_TYPES[match[1]],
+        ign: match[3],
+        message: match[4],
+      });
+      return true;
+    },
+  },
+  {
+    name: RCEEvent.ExecutingCommand,
+    match: RegularExpressions.CommandExecuting,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.logger.debug(
+        `[${server.identifier}] Executing Match: ${match[1]}`
+      );
+      manager.events.emit(RCEEvent.ExecutingCommand, {
+        server,
+        timestamp,
+        command: match[1],
+      });
+    },
+  },
+  {
+    name: RCEEvent.VendingMachineName,
+    match: RegularExpressions.VendingMachineName,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.VendingMachineName, {
+        server,
+        timestamp,
+        ign: match[1],
+        oldName: match[2],
+        newName: match[3],
+      });
+    },
+  },
+  {
+    name: RCEEvent.PlayerSuicide,
+    match: (log) =>
+      log.includes("was suicide by Suicide") &&
+      log.split(" was suicide by Suicide")[0],
+    emit: (ign: string, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.PlayerSuicide, { server, ign, timestamp });
+    },
+  },
+  {
+    name: RCEEvent.PlayerRespawned,
+    match: (log) => log.includes("has entered the game") && log,
+    emit: (log: string, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.PlayerRespawned, {
+        server,
+        timestamp,
+        ign: log.split(" [")[0],
+        platform: log.includes("[xboxone]") ? "XBL" : "PS",
+      });
+    },
+  },
+  {
+    name: RCEEvent.CustomZoneCreated,
+    match: RegularExpressions.CustomZoneCreated,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.CustomZoneCreated, {
+        server,
+        timestamp,
+        zone: match[1],
+      });
+    },
+  },
+  {
+    name: RCEEvent.CustomZoneRemoved,
+    match: RegularExpressions.CustomZoneRemoved,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.CustomZoneRemoved, {
+        server,
+        timestamp,
+        zone: match[1],
+      });
+    },
+  },
+  {
+    name: RCEEvent.PlayerRoleAdd,
+    match: (log) =>
+      log.includes("Added") && log.match(RegularExpressions.PlayerRoleAdd),
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.PlayerRoleAdd, {
+        server,
+        timestamp,
+        admin: match[1] === "SERVER" ? undefined : match[1],
+        ign: match[2],
+        role: match[3],
+      });
+    },
+  },
+  {
+    name: RCEEvent.PlayerRoleRemove,
+    match: (log) =>
+      log.includes("Removed") && log.match(RegularExpressions.PlayerRoleRemove),
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.PlayerRoleRemove, {
+        server,
+        timestamp,
+        admin: match[1] === "SERVER" ? undefined : match[1],
+        ign: match[2],
+        role: match[3],
+      });
+    },
+  },
+  {
+    name: RCEEvent.ItemSpawn,
+    match: RegularExpressions.ItemSpawn,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.ItemSpawn, {
+        server,
+        timestamp,
+        ign: match[1],
+        item: match[3],
+        quantity: parseInt(match[2]),
+      });
+    },
+  },
+  {
+    name: RCEEvent.NoteEdit,
+    match: RegularExpressions.NoteEdit,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      const oldContent = match[2].trim().split("\\n")[0];
+      const newContent = match[3].trim().split("\\n")[0];
+
+      if (newContent.length > 0 && oldContent !== newContent) {
+        manager.events.emit(RCEEvent.NoteEdit, {
+          server,
+          timestamp,
+          ign: match[1],
+          oldContent,
+          newContent,
+        });
+      }
+    },
+  },
+  {
+    name: RCEEvent.TeamCreate,
+    match: RegularExpressions.TeamCreate,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.TeamCreate, {
+        server,
+        timestamp,
+        id: parseInt(match[2]),
+        owner: match[1],
+      });
+    },
+  },
+  {
+    name: RCEEvent.TeamJoin,
+    match: RegularExpressions.TeamJoin,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.TeamJoin, {
+        server,
+        timestamp,
+        id: parseInt(match[3]),
+        owner: match[2],
+        ign: match[1],
+      });
+    },
+  },
+  {
+    name: RCEEvent.TeamInvite,
+    match: RegularExpressions.TeamInvite,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.TeamInvite, {
+        server,
+        timestamp,
+        id: parseInt(match[3]),
+        owner: match[1],
+        ign: match[2],
+      });
+    },
+  },
+  {
+    name: RCEEvent.TeamLeave,
+    match: RegularExpressions.TeamLeave,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.TeamLeave, {
+        server,
+        timestamp,
+        id: parseInt(match[3]),
+        owner: match[2],
+        ign: match[1],
+      });
+    },
+  },
+  {
+    name: RCEEvent.TeamInviteCancel,
+    match: RegularExpressions.TeamInviteCancel,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.TeamInviteCancel, {
+        server,
+        timestamp,
+        id: parseInt(match[3]),
+        owner: match[2],
+        ign: match[1],
+      });
+    },
+  },
+  {
+    name: RCEEvent.TeamPromoted,
+    match: RegularExpressions.TeamPromoted,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.TeamPromoted, {
+        server,
+        timestamp,
+        id: parseInt(match[3]),
+        oldOwner: match[1],
+        newOwner: match[2],
+      });
+    },
+  },
+  {
+    name: RCEEvent.KitSpawn,
+    match: RegularExpressions.KitSpawn,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.KitSpawn, {
+        server,
+        timestamp,
+        ign: match[1],
+        kit: match[2],
+      });
+    },
+  },
+  {
+    name: RCEEvent.KitGive,
+    match: RegularExpressions.KitGive,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.KitGive, {
+        server,
+        timestamp,
+        ign: match[2],
+        admin: match[1],
+        kit: match[3],
+      });
+    },
+  },
+  {
+    name: RCEEvent.SpecialEventSet,
+    match: RegularExpressions.SpecialEventSet,
+    emit: (match: RegExpMatchArray, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.SpecialEventSet, {
+        server,
+        timestamp,
+        event: match[1] as any,
+      });
+    },
+  },
+  {
+    name: RCEEvent.EventStart,
+    match: (log) => log.startsWith("[event]") && log,
+    emit: (log: string, { manager, server, timestamp }) => {
+      for (const [key, options] of Object.entries(EVENTS)) {
+        if (log.includes(key)) {
+          manager.events.emit(RCEEvent.EventStart, {
+            server,
+            timestamp,
+            event: options.name as any,
+            special: options.special,
+          });
+        }
+      }
+    },
+  },
+  {
+    name: RCEEvent.PlayerKill,
+    match: (log) => log.includes(" was killed by ") && log,
+    emit: (log: string, { manager, server, timestamp }) => {
+      manager.events.emit(RCEEvent.PlayerKill, {
+        server,
+        timestamp,
+        ...manager.killFeed.parse(log),
+      });
+    },
+  },
+];
+
+export default class ConsoleParsers {
+  private _parsers: ConsoleParser<any>[] = BUILT_IN.map((parser) => ({
+    ...parser,
+  }));
+
+  /**
+   *
+   * @param parser {ConsoleParser} - Matches console lines and emits events for them
+   * @param position {ConsoleParserPosition} - Run before or after another parser, appended to the end by default
+   * @returns {void}
+   * @description Registers a console line parser, a parser with the same name is replaced. The built-in parsers are named after the event they emit
+   *
+   * @example
+   * ```js
+   * rce.consoleParsers.register(
+   *   {
+   *     name: "ZONE_ENTERED",
+   *     match: /^(.+) entered zone (.+)$/,
+   *     emit: (match, { manager, server, timestamp }) => {
+   *       manager.events.emit("ZONE_ENTERED", { server, ign: match[1], zone: match[2], timestamp });
+   *       return true; // Nothing else needs to see this line
+   *     },
+   *   },
+   *   { before: RCEEvent.PlayerKill }
+   * );
+   * ```
+   */
+  public register<T = RegExpMatchArray>(
+    parser: ConsoleParser<T>,
+    position: ConsoleParserPosition = {}
+  ) {
+    this.unregister(parser.name);
+
+    const anchor = position.before ?? position.after;
+    const index = this._parsers.findIndex((p) => p.name === anchor);
+    if (anchor && index === -1) {
+      throw new Error(
+        `Failed To Register Console Parser: Unknown Parser (${anchor})`
+      );
+    }
+
+    this._parsers.splice(
+      index === -1 ? this._parsers.length : position.before ? index : index + 1,
+      0,
+      { enabled: true, ...parser }
+    );
+  }
+
+  /**
+   *
+   * @param name {string} - The parser to remove
+   * @returns {boolean} - Whether a parser was removed
+   */
+  public unregister(name: string) {
+    const index = this._parsers.findIndex((parser) => parser.name === name);
+    if (index === -1) return false;
+
+    this._parsers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   *
+   * @param name {string} - The parser to switch on
+   * @returns {boolean} - Whether the parser exists
+   */
+  public enable(name: string) {
+    return this.toggle(name, true);
+  }
+
+  /**
+   *
+   * @param name {string} - The parser to switch off, e.g. RCEEvent.NoteEdit
+   * @returns {boolean} - Whether the parser exists
+   *
+   * @example
+   * ```js
+   * rce.consoleParsers.disable(RCEEvent.NoteEdit);
+   * ```
+   */
+  public disable(name: string) {
+    return this.toggle(name, false);
+  }
+
+  /**
+   * @returns {string[]} - The parser names in the order they run
+   */
+  public list() {
+    return this._parsers.map((parser) => parser.name);
+  }
+
+  /**
+   *
+   * @param context {ConsoleParserContext} - The console line and the server it came from
+   * @returns {void}
+   * @description Runs the enabled parsers in order until one of them returns true
+   */
+  public parse(context: ConsoleParserContext) {
+    for (const parser of [...this._parsers]) {
+      if (parser.enabled === false) continue;
+
+      try {
+        const match =
+          parser.match instanceof RegExp
+            ? context.log.match(parser.match)
+            : parser.match(context.log, context.server);
+        if (!match) continue;
+
+        if (parser.emit(match, context) === true) return;
+      } catch (error) {
+        ServerUtils.error(
+          context.manager,
+          `Console Parser Failed: ${parser.name} (${error})`,
+          context.server
+        );
+      }
+    }
+  }
+
+  private toggle(name: string, enabled: boolean) {
+    const parser = this._parsers.find((parser) => parser.name === name);
+    if (!parser) return false;
+
+    parser.enabled = enabled;
+    return true;
+  }
+}
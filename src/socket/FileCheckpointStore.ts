@@ -0,0 +1,57 @@
+import type { ILogCheckpointStore, LogCheckpoint } from "./interfaces";
+import { readFile, writeFile } from "fs/promises";
+
+export default class FileCheckpointStore implements ILogCheckpointStore {
+  private file: string;
+  private data?: Promise<{ [identifier: string]: LogCheckpoint }>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   *
+   * @param file {string} - The file the checkpoints of every server are saved to
+   */
+  constructor(file: string = "rce.checkpoints.json") {
+    this.file = file;
+  }
+
+  /**
+   * @param identifier {string} - The server identifier
+   * @returns {Promise<LogCheckpoint | null>} - The saved checkpoint, if any
+   * @throws {Error} If the file exists but cannot be parsed
+   */
+  public async get(identifier: string) {
+    const data = await this.load();
+    return data[identifier] ?? null;
+  }
+
+  /**
+   * @param identifier {string} - The server identifier
+   * @param checkpoint {LogCheckpoint} - The checkpoint to save
+   * @returns {Promise<void>}
+   */
+  public async set(identifier: string, checkpoint: LogCheckpoint) {
+    const data = await this.load();
+    data[identifier] = checkpoint;
+
+    // Writes are chained so a slow write never overwrites a newer one
+    const write = this.writing.then(() =>
+      writeFile(this.file, JSON.stringify(data), "utf-8")
+    );
+    this.writing = write.catch(() => {});
+
+    return write;
+  }
+
+  private load() {
+    this.data ??= readFile(this.file, "utf-8")
+      .then((content) => (content.trim() ? JSON.parse(content) : {}))
+      .catch((error) => {
+        if (error.code === "ENOENT") return {};
+
+        this.data = undefined;
+        throw error;
+      });
+
+    return this.data;
+  }
+}
@@ -0,0 +1,129 @@
+import type { KillEntity, PlayerKill, PlayerKillData } from "./interfaces";
+import { KillCategory, playerKillData, PlayerKillType } from "../constants";
+
+export default class KillFeed {
+  private _entities: Map<string, KillEntity> = new Map(
+    playerKillData.map(({ id, name, type }) => [id, { name, type }])
+  );
+  private _patterns: { pattern: RegExp; entity: KillEntity }[] = [];
+
+  /**
+   *
+   * @param id {string | RegExp} - The killer or victim as it appears in the console, e.g. "scarecrow" also covers "scarecrow (entity)"
+   * @param entity {KillEntity} - The display name and what kind of killer it is
+   * @returns {void}
+   * @description Maps an entity prefab to a name and type, which decide how kills involving it are classified
+   *
+   * @example
+   * ```js
+   * rce.killFeed.register("scarecrow", { name: "Scarecrow", type: PlayerKillType.Npc });
+   * rce.killFeed.register(/^scientistnpc_/, { name: "Scientist", type: PlayerKillType.Npc });
+   * ```
+   */
+  public register(id: string | RegExp, entity: KillEntity) {
+    if (id instanceof RegExp) {
+      this.unregister(id);
+      this._patterns.push({ pattern: id, entity });
+    } else {
+      this._entities.set(id.toLowerCase(), entity);
+    }
+  }
+
+  /**
+   *
+   * @param id {string | RegExp} - The id or pattern passed to `register`
+   * @returns {boolean} - Whether a mapping was removed
+   */
+  public unregister(id: string | RegExp) {
+    if (!(id instanceof RegExp)) {
+      return this._entities.delete(id.toLowerCase());
+    }
+
+    const index = this._patterns.findIndex(
+      ({ pattern }) =>
+        pattern.source === id.source && pattern.flags === id.flags
+    );
+    if (index === -1) return false;
+
+    this._patterns.splice(index, 1);
+    return true;
+  }
+
+  /**
+   *
+   * @param id {string} - The killer or victim as it appears in the console
+   * @returns {PlayerKillData} - The mapped entity, a scientist for numeric ids, an entity for unmapped "(entity)" ids, otherwise a player
+   */
+  public resolve(id: string): PlayerKillData {
+    const key = id.toLowerCase();
+    const entity =
+      this._entities.get(key) ??
+      this._entities.get(key.replace(/\s*\([^)]*\)$/, "")) ??
+      this._patterns.find(({ pattern }) => {
+        pattern.lastIndex = 0;
+        return pattern.test(id);
+      })?.entity;
+
+    if (entity) {
+      return { id, name: entity.name, type: entity.type };
+    }
+
+    if (Number(id)) {
+      return { id, name: "Scientist", type: PlayerKillType.Npc };
+    }
+
+    // Unmapped prefabs still count as entities so they never show up as PvP
+    if (/\s\(entity\)$/i.test(id)) {
+      return {
+        id,
+        name: id.replace(/\s\(entity\)$/i, ""),
+        type: PlayerKillType.Entity,
+      };
+    }
+
+    return { id, name: id, type: PlayerKillType.Player };
+  }
+
+  /**
+   *
+   * @param victim {PlayerKillData} - Who died
+   * @param killer {PlayerKillData} - Who or what killed them
+   * @returns {KillCategory} - PvP, PvE, NPC on player or environmental
+   */
+  public classify(victim: PlayerKillData, killer: PlayerKillData) {
+    if (killer.type === PlayerKillType.Player) {
+      return victim.type === PlayerKillType.Player
+        ? KillCategory.PvP
+        : KillCategory.PvE;
+    }
+
+    if (
+      killer.type === PlayerKillType.Npc &&
+      victim.type === PlayerKillType.Player
+    ) {
+      return KillCategory.NpcOnPlayer;
+    }
+
+    return KillCategory.Environmental;
+  }
+
+  /**
+   *
+   * @param log {string} - A "<victim> was killed by <killer>" console line
+   * @returns {PlayerKill} - The resolved victim and killer and how the kill is classified
+   */
+  public parse(log: string): PlayerKill {
+    const [victim, killer] = log
+      .split(" was killed by ")
+      .map((str) => str.trim());
+
+    const victimData = this.resolve(victim);
+    const killerData = this.resolve(killer);
+
+    return {
+      victim: victimData,
+      killer: killerData,
+      category: this.classify(victimData, killerData),
+    };
+  }
+}
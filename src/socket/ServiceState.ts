@@ -2,6 +2,7 @@ import type { RustServer } from "../servers/interfaces";
 import type { WSMessage } from "./interfaces";
 import { RCEEvent } from "../constants";
 import type RCEManager from "../Manager";
+import type { ServiceProgress } from "../interfaces";
 import ServerUtils from "../util/ServerUtils";
 
 export default class ServiceStateHandler {
@@ -10,8 +11,20 @@ export default class ServiceStateHandler {
     message: WSMessage,
     server: RustServer
   ) {
-    const status = message.payload.data.serviceState
-      .state as RustServer["status"];
+    const serviceState = message.payload.data.serviceState;
+    const status = serviceState.state as RustServer["status"];
+
+    const progress = this.getProgress(serviceState.fsmStateLiveProgress);
+    if (progress) {
+      manager.events.emit(RCEEvent.ServiceProgress, {
+        server,
+        status,
+        transitioning: Boolean(serviceState.fsmIsTransitioning),
+        lastStateChange: this.toDate(serviceState.fsmLastStateChange),
+        progress,
+      });
+    }
+
     if (server.status === status) return;
 
     server.status = status;
@@ -28,4 +41,39 @@ export default class ServiceStateHandler {
       manager.servers.remove(server);
     }
   }
+
+  private static getProgress(live: any): ServiceProgress | null {
+    if (live?.__typename === "InstallProgress") {
+      return {
+        type: "install",
+        action: live.action,
+        percentage: Number(live.percentage),
+      };
+    }
+
+    if (live?.__typename === "BroadcastProgress") {
+      const nextMessageAt = this.toDate(live.nextMessageAt);
+      const stateExitAt = this.toDate(live.stateExitAt);
+
+      return {
+        type: "broadcast",
+        nextMessageAt,
+        stateExitAt,
+        remaining: stateExitAt
+          ? Math.max(stateExitAt.getTime() - Date.now(), 0)
+          : null,
+      };
+    }
+
+    return null;
+  }
+
+  private static toDate(value: string | number): Date | null {
+    if (value === null || value === undefined || value === "") return null;
+
+    // Numeric timestamps are sent in seconds
+    const date =
+      typeof value === "number" ? new Date(value * 1_000) : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
 }
@@ -1,32 +1,147 @@
 import { WebSocket } from "ws";
-import type GPortalAuth from "../auth/Auth";
-import { GPortalRoutes, RCEIntent, RegularExpressions } from "../constants";
+import type { IAuthProvider } from "../auth/interfaces";
+import {
+  GPortalRoutes,
+  RCEEvent,
+  RCEIntent,
+  RegularExpressions,
+} from "../constants";
 import type { RustServer } from "../servers/interfaces";
-import type { WSMessage, WSRequest } from "./interfaces";
+import type {
+  IProtocol,
+  SocketOptions,
+  SocketStats,
+  SubscriptionIntent,
+  WSRequest,
+} from "./interfaces";
 import type RCEManager from "../Manager";
 import ServiceStateHandler from "./ServiceState";
 import ConsoleMessagesHandler from "./ConsoleMessages";
 import ServiceSensorHandler from "./ServiceSensors";
 import ServerUtils from "../util/ServerUtils";
+import GraphQLWsProtocol from "./protocols/GraphQLWs";
+import GraphQLTransportWsProtocol from "./protocols/GraphQLTransportWs";
+
+const PROTOCOLS: { [name: string]: () => IProtocol } = {
+  "graphql-ws": () => new GraphQLWsProtocol(),
+  "graphql-transport-ws": () => new GraphQLTransportWsProtocol(),
+};
+
+const SUBSCRIPTIONS: Record<
+  SubscriptionIntent,
+  { operationName: string; query: string }
+> = {
+  [RCEIntent.ConsoleMessages]: {
+    operationName: "consoleMessages",
+    query: `subscription consoleMessages($sid: Int!, $region: REGION!) {
+              consoleMessages(rsid: {id: $sid, region: $region}) {
+                stream
+                message
+                __typename
+              }
+            }`,
+  },
+  [RCEIntent.ServiceState]: {
+    operationName: "serviceState",
+    query:
+      "subscription serviceState($sid: Int!, $region: REGION!) {\n  serviceState(rsid: {id: $sid, region: $region}) {\n    ...ServiceStateFields\n    __typename\n  }\n}\n\nfragment ServiceStateFields on ServiceState {\n  state\n  fsmState\n  fsmIsTransitioning\n  fsmIsExclusiveLocked\n  fsmFileAccess\n  fsmLastStateChange\n  fsmStateLiveProgress {\n    ... on InstallProgress {\n      action\n      percentage\n      __typename\n    }\n    ... on BroadcastProgress {\n      nextMessageAt\n      stateExitAt\n      __typename\n    }\n    __typename\n  }\n  __typename\n}",
+  },
+  [RCEIntent.ServiceSensors]: {
+    operationName: "serviceSensors",
+    query:
+      "subscription serviceSensors($sid: Int!, $region: REGION!) {\n  serviceSensors(rsid: {id: $sid, region: $region}) {\n    cpuTotal\n    memory {\n      used\n      __typename\n    }\n    __typename\n  }\n}",
+  },
+};
 
 export default class GPortalSocket {
   private _manager: RCEManager;
-  private _auth: GPortalAuth;
+  private _auth: IAuthProvider;
+  private _account: string;
+  private _options: SocketOptions;
   private _socket: WebSocket;
+  private _protocol: IProtocol = new GraphQLWsProtocol();
   private _connectionAttempts: number = 0;
+  private _closed: boolean = false;
+  private _gaveUp: boolean = false;
+  private _reconnectTimeout: NodeJS.Timeout;
   private _heartbeatInterval: NodeJS.Timeout;
+  private _lastMessageAt: number = null;
+  private _pingSentAt: number = null;
+  private _latency: number = null;
+  private _connectedAt: number = null;
+  private _reconnects: number = 0;
   private _requests: Map<string, WSRequest> = new Map();
-
-  public constructor(manager: RCEManager, auth: GPortalAuth) {
+  private _subscriptions: Map<string, Map<SubscriptionIntent, string>> =
+    new Map();
+  private _operationId: number = 0;
+  private _pending: Map<
+    string,
+    { identifier: string; intent: SubscriptionIntent }
+  > = new Map();
+  private _acknowledged: boolean = false;
+  private _resubscribe: boolean = false;
+  private _readyWaiters: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  public constructor(
+    manager: RCEManager,
+    auth: IAuthProvider,
+    account: string,
+    options: SocketOptions = {}
+  ) {
     this._manager = manager;
     this._auth = auth;
+    this._account = account;
+    this._options = options;
   }
 
+  /**
+   * Close the connection without reconnecting
+   * @returns {void}
+   */
   public close() {
+    this._closed = true;
+    clearTimeout(this._reconnectTimeout);
+
+    this.teardown();
+    this._pending.clear();
+    this._readyWaiters
+      .splice(0)
+      .forEach((waiter) => waiter.reject(new Error("WebSocket Closed")));
+  }
+
+  /**
+   * Wait until the connection is authenticated and every queued subscription has been started
+   * @returns {Promise<void>}
+   * @throws {Error} If the socket is closed or gives up reconnecting first
+   */
+  public ready(): Promise<void> {
+    if (this._acknowledged && !this._pending.size) {
+      return Promise.resolve();
+    }
+
+    if (this._closed) {
+      return Promise.reject(new Error("WebSocket Closed"));
+    }
+
+    if (this._gaveUp) {
+      return Promise.reject(new Error("WebSocket Reconnection Failed"));
+    }
+
+    return new Promise((resolve, reject) => {
+      this._readyWaiters.push({ resolve, reject });
+    });
+  }
+
+  private teardown() {
     this._manager.logger.debug("Closing WebSocket Connection");
 
     if (this._socket) {
+      // Closing a socket that is still connecting emits an error, which would crash the process without a listener
       this._socket.removeAllListeners();
+      this._socket.on("error", () => {});
       this._socket.close();
     }
 
@@ -34,7 +149,12 @@ export default class GPortalSocket {
       clearInterval(this._heartbeatInterval);
     }
 
+    this._connectedAt = null;
+    this._pingSentAt = null;
+
     this._requests.clear();
+    this._subscriptions.clear();
+    this._acknowledged = false;
     this._socket = null;
 
     this._manager.logger.debug("WebSocket Connection Closed");
@@ -43,8 +163,16 @@ export default class GPortalSocket {
   public connect(resubscribe: boolean = false) {
     this._manager.logger.debug("Connecting to WebSocket Server");
 
+    this._closed = false;
+    this._gaveUp = false;
+    this._resubscribe = resubscribe;
     this._connectionAttempts++;
-    this._socket = new WebSocket(GPortalRoutes.WS, ["graphql-ws"], {
+    this._manager.events.emit(RCEEvent.SocketConnecting, {
+      account: this._account,
+      attempt: this._connectionAttempts,
+    });
+
+    this._socket = new WebSocket(GPortalRoutes.WS, Object.keys(PROTOCOLS), {
       headers: {
         origin: GPortalRoutes.Origin,
         host: "www.g-portal.com",
@@ -53,67 +181,88 @@ export default class GPortalSocket {
     });
 
     this._socket.on("open", () => {
-      this._manager.logger.debug("WebSocket Connection Established");
+      this._protocol = (
+        PROTOCOLS[this._socket.protocol] ?? PROTOCOLS["graphql-ws"]
+      )();
+      this._manager.logger.debug(
+        `WebSocket Connection Established (${this._protocol.name})`
+      );
 
-      this._connectionAttempts = 0;
-      this.authenticate(resubscribe);
+      if (this._lastMessageAt !== null) {
+        this._reconnects++;
+      }
 
-      this._heartbeatInterval = setInterval(() => {
-        if (this._socket?.OPEN) {
-          this._manager.logger.debug("Sending WebSocket Heartbeat");
-          this._socket.send(JSON.stringify({ type: "ka" }));
-        }
-      }, 30_000);
+      this._connectedAt = Date.now();
+      this._lastMessageAt = Date.now();
+      this._manager.events.emit(RCEEvent.SocketConnected, {
+        account: this._account,
+      });
+
+      this.authenticate();
+
+      const { interval = 30_000, timeout = 90_000 } =
+        this._options.heartbeat ?? {};
+
+      this._heartbeatInterval = setInterval(
+        () => this.heartbeat(timeout),
+        interval
+      );
+    });
+
+    this._socket.on("pong", () => {
+      this._lastMessageAt = Date.now();
+      if (this._pingSentAt !== null) {
+        this._latency = this._lastMessageAt - this._pingSentAt;
+        this._pingSentAt = null;
+      }
     });
 
-    this._socket.on("close", (code: number, reason: string) => {
+    this._socket.on("close", (code: number, reason: Buffer) => {
       this._manager.logger.debug(
         `WebSocket Connection Closed: ${code} - ${reason}`
       );
 
-      this.close();
+      this.teardown();
 
-      if (code !== 1000) {
-        if (this._connectionAttempts < 5) {
-          this._manager.logger.warn(
-            `WebSocket Connection Closed - Reconnecting in 10 Seconds (Attempt ${
-              this._connectionAttempts + 1
-            })`
-          );
+      this._manager.events.emit(RCEEvent.SocketDisconnected, {
+        account: this._account,
+        code,
+        reason: reason.toString(),
+      });
 
-          setTimeout(
-            () => this.connect(true),
-            (this._connectionAttempts + 1) * 10_000
-          );
-        } else {
-          throw new Error(
-            "Failed to reconnect to the WS server after 5 attempts"
-          );
-        }
-      } else {
-        throw new Error(`WS connection closed (${code}): ${reason}`);
-      }
+      this.reconnect();
+    });
+
+    this._socket.on("error", (error) => {
+      this._manager.logger.warn(`WebSocket Error: ${error.message}`);
     });
 
     this._socket.on("message", (message) => {
+      this._lastMessageAt = Date.now();
+
       try {
-        const data: WSMessage = JSON.parse(message.toString());
+        const frame = JSON.parse(message.toString());
 
         this._manager.logger.debug(
-          `WebSocket Message Received: ${JSON.stringify(data)}`
+          `WebSocket Message Received: ${JSON.stringify(frame)}`
         );
 
-        if (data.type === "ka") return;
+        const { message: data, reply } = this._protocol.decode(frame);
+        if (reply) this.send(reply);
+        if (!data || data.type === "ka" || data.type === "complete") return;
 
         if (data.type === "error") {
           return ServerUtils.error(
             this._manager,
-            `WebSocket Error: ${data.payload?.message}`
+            `WebSocket Error: ${data.payload?.message}`,
+            undefined,
+            this._account
           );
         }
 
         if (data.type === "connection_ack") {
-          return this._manager.logger.info("RCE.JS - Authenticated");
+          this._manager.logger.info("RCE.JS - Authenticated");
+          return this.acknowledge();
         }
 
         if (data.type === "data") {
@@ -121,7 +270,9 @@ export default class GPortalSocket {
           if (!request) {
             return ServerUtils.error(
               this._manager,
-              `Unknown Request ID: ${data.id}`
+              `Unknown Request ID: ${data.id}`,
+              undefined,
+              this._account
             );
           }
 
@@ -144,19 +295,12 @@ export default class GPortalSocket {
                 );
 
                 this._manager.servers.remove(server);
+                // The original options keep the tags, group, rate limit and so on
                 setTimeout(
                   () =>
                     this._manager.servers.add({
-                      identifier: server.identifier,
-                      region: server.region,
-                      serverId: server.serverId,
+                      ...server.options,
                       state: server.state,
-                      extendedEventRefreshing:
-                        server.intervals.extendedEventRefreshing.enabled,
-                      playerRefreshing:
-                        server.intervals.playerRefreshing.enabled,
-                      radioRefreshing: server.intervals.radioRefreshing.enabled,
-                      intents: server.intents,
                     }),
                   120_000
                 );
@@ -180,153 +324,301 @@ export default class GPortalSocket {
     });
   }
 
+  /**
+   * Stop every subscription of a server
+   * @param server {RustServer} - The server to unsubscribe
+   * @returns {void}
+   */
   public removeServer(server: RustServer) {
     this._manager.logger.debug(
       `[${server.identifier}] Removing WebSocket Subscription`
     );
 
-    if (this._socket?.OPEN) {
-      this._socket.send(
-        JSON.stringify({
-          type: "stop",
-          id: server.identifier,
-        })
-      );
-    }
+    this._subscriptions
+      .get(server.identifier)
+      ?.forEach((_, intent) => this.unsubscribe(server, intent));
+    this._subscriptions.delete(server.identifier);
 
-    this._requests.delete(server.identifier);
+    this._pending.forEach((pending, key) => {
+      if (pending.identifier === server.identifier) {
+        this._pending.delete(key);
+      }
+    });
 
     this._manager.logger.debug(
       `[${server.identifier}] WebSocket Subscription Removed`
     );
   }
 
+  /**
+   * Start a subscription for every stream the server's intents ask for
+   * @param server {RustServer} - The server to subscribe
+   * @returns {void}
+   * @remarks Subscriptions are queued until the connection is acknowledged.
+   */
   public addServer(server: RustServer) {
     this._manager.logger.debug(
       `[${server.identifier}] Adding WebSocket Subscription`
     );
 
-    if (this._socket?.OPEN) {
-      if (
-        server.intents.includes(RCEIntent.All) ||
-        server.intents.includes(RCEIntent.ConsoleMessages)
-      ) {
-        this._socket.send(
-          JSON.stringify({
-            type: "start",
-            payload: {
-              variables: {
-                sid: server.serverId[1],
-                region: server.region,
-              },
-              extensions: {},
-              operationName: "consoleMessages",
-              query: `subscription consoleMessages($sid: Int!, $region: REGION!) {
-              consoleMessages(rsid: {id: $sid, region: $region}) {
-                stream
-                message
-                __typename
-              }
-            }`,
-            },
-            id: server.identifier,
-          })
-        );
-
-        this._manager.logger.debug(
-          `[${server.identifier}] Subscribed to Console Messages`
-        );
-      }
-
+    Object.keys(SUBSCRIPTIONS).forEach((intent: SubscriptionIntent) => {
       if (
         server.intents.includes(RCEIntent.All) ||
-        server.intents.includes(RCEIntent.ServiceState)
+        server.intents.includes(intent)
       ) {
-        this._socket.send(
-          JSON.stringify({
-            type: "start",
-            payload: {
-              variables: {
-                sid: server.serverId[1],
-                region: server.region,
-              },
-              extensions: {},
-              operationName: "serviceState",
-              query:
-                "subscription serviceState($sid: Int!, $region: REGION!) {\n  serviceState(rsid: {id: $sid, region: $region}) {\n    ...ServiceStateFields\n    __typename\n  }\n}\n\nfragment ServiceStateFields on ServiceState {\n  state\n  fsmState\n  fsmIsTransitioning\n  fsmIsExclusiveLocked\n  fsmFileAccess\n  fsmLastStateChange\n  fsmStateLiveProgress {\n    ... on InstallProgress {\n      action\n      percentage\n      __typename\n    }\n    ... on BroadcastProgress {\n      nextMessageAt\n      stateExitAt\n      __typename\n    }\n    __typename\n  }\n  __typename\n}",
-            },
-            id: server.identifier,
-          })
-        );
-
-        this._manager.logger.debug(
-          `[${server.identifier}] Subscribed to Service State`
-        );
+        this.subscribe(server, intent);
       }
+    });
 
-      if (
-        server.intents.includes(RCEIntent.All) ||
-        server.intents.includes(RCEIntent.ServiceSensors)
-      ) {
-        this._socket.send(
-          JSON.stringify({
-            type: "start",
-            payload: {
-              variables: {
-                sid: server.serverId[1],
-                region: server.region,
-              },
-              extensions: {},
-              operationName: "serviceSensors",
-              query:
-                "subscription serviceSensors($sid: Int!, $region: REGION!) {\n  serviceSensors(rsid: {id: $sid, region: $region}) {\n    cpuTotal\n    memory {\n      used\n      __typename\n    }\n    __typename\n  }\n}",
-            },
-            id: server.identifier,
-          })
-        );
+    this._manager.logger.debug(
+      `[${server.identifier}] WebSocket Subscription ${
+        this._acknowledged ? "Added" : "Queued"
+      }`
+    );
+  }
 
-        this._manager.logger.debug(
-          `[${server.identifier}] Subscribed to Service Sensors`
-        );
-      }
+  /**
+   * Start a single stream for a server
+   * @param server {RustServer} - The server to subscribe
+   * @param intent {SubscriptionIntent} - The stream to start
+   * @returns {boolean} Whether the subscription was started or queued
+   */
+  public subscribe(server: RustServer, intent: SubscriptionIntent) {
+    const subscription = SUBSCRIPTIONS[intent];
+    if (!subscription) return false;
+
+    if (this._subscriptions.get(server.identifier)?.has(intent)) {
+      return true;
+    }
 
-      this._requests.set(server.identifier, {
-        sid: server.serverId[1],
-        region: server.region,
+    if (!this._acknowledged || this._socket?.readyState !== WebSocket.OPEN) {
+      this._pending.set(`${server.identifier}:${intent}`, {
         identifier: server.identifier,
+        intent,
       });
 
       this._manager.logger.debug(
-        `[${server.identifier}] WebSocket Subscription Added`
+        `[${server.identifier}] Queued ${subscription.operationName} Subscription`
       );
+      return true;
+    }
+
+    // Every new console subscription starts with a history batch again
+    const current = this._manager.servers.get(server.identifier);
+    if (intent === RCEIntent.ConsoleMessages && current) {
+      current.flags = current.flags.filter((flag) => flag !== "INIT_LOGS");
+      this._manager.servers.update(current);
     }
+
+    const id = `${server.identifier}:${subscription.operationName}:${++this
+      ._operationId}`;
+
+    this.send(
+      this._protocol.subscribe(id, {
+        variables: {
+          sid: server.serverId[1],
+          region: server.region,
+        },
+        extensions: {},
+        operationName: subscription.operationName,
+        query: subscription.query,
+      })
+    );
+
+    this._requests.set(id, {
+      id,
+      sid: server.serverId[1],
+      region: server.region,
+      identifier: server.identifier,
+      intent,
+    });
+
+    if (!this._subscriptions.has(server.identifier)) {
+      this._subscriptions.set(server.identifier, new Map());
+    }
+    this._subscriptions.get(server.identifier).set(intent, id);
+
+    this._manager.logger.debug(
+      `[${server.identifier}] Subscribed to ${subscription.operationName} (${id})`
+    );
+
+    return true;
   }
 
-  private authenticate(resubscribe: boolean) {
+  /**
+   * Stop a single stream for a server
+   * @param server {RustServer} - The server to unsubscribe
+   * @param intent {SubscriptionIntent} - The stream to stop
+   * @returns {boolean} Whether a subscription was stopped
+   */
+  public unsubscribe(server: RustServer, intent: SubscriptionIntent) {
+    if (this._pending.delete(`${server.identifier}:${intent}`)) {
+      return true;
+    }
+
+    const id = this._subscriptions.get(server.identifier)?.get(intent);
+    if (!id) return false;
+
+    if (this._socket?.readyState === WebSocket.OPEN) {
+      this.send(this._protocol.unsubscribe(id));
+    }
+
+    this._requests.delete(id);
+    this._subscriptions.get(server.identifier).delete(intent);
+
+    this._manager.logger.debug(
+      `[${server.identifier}] Unsubscribed from ${SUBSCRIPTIONS[intent].operationName} (${id})`
+    );
+
+    return true;
+  }
+
+  /**
+   * Re-authenticate the open connection with the current access token
+   * @returns {void}
+   * @remarks Protocols that only allow one `connection_init` are reconnected instead.
+   */
+  public reauthenticate() {
     const token = this._auth.accessToken;
-    if (!token) {
-      throw new Error("No access token available");
+    if (!token || this._socket?.readyState !== WebSocket.OPEN) return;
+
+    if (!this._protocol.reinitializable) {
+      this._manager.logger.debug("Reconnecting WebSocket With The New Token");
+      return this._socket.close(4001, "Token Refreshed");
     }
 
-    this._manager.logger.debug("Authenticating WebSocket Connection");
+    this._manager.logger.debug("Re-Authenticating WebSocket Connection");
 
-    if (this._socket.OPEN) {
-      this._socket.send(
-        JSON.stringify({
-          type: "connection_init",
-          payload: {
-            authorization: token,
-          },
-        })
+    this.send(this._protocol.connectionInit(token));
+  }
+
+  /**
+   * Get the connection statistics
+   * @returns {SocketStats} The connection statistics
+   */
+  get stats(): SocketStats {
+    return {
+      connected: this._socket?.readyState === WebSocket.OPEN,
+      authenticated: this._acknowledged,
+      protocol: this._protocol.name,
+      latency: this._latency,
+      connectedAt: this._connectedAt ? new Date(this._connectedAt) : null,
+      lastMessageAt: this._lastMessageAt ? new Date(this._lastMessageAt) : null,
+      reconnects: this._reconnects,
+      subscriptions: this._requests.size,
+    };
+  }
+
+  private heartbeat(timeout: number) {
+    if (this._socket?.readyState !== WebSocket.OPEN) return;
+
+    const silence = Date.now() - this._lastMessageAt;
+    if (silence > timeout) {
+      this._manager.logger.warn(
+        `WebSocket Silent For ${Math.round(
+          silence / 1_000
+        )} Seconds - Forcing Reconnect`
       );
+      return this._socket.terminate();
+    }
+
+    this._manager.logger.debug("Sending WebSocket Heartbeat");
+    this.send(this._protocol.keepAlive());
 
-      if (resubscribe) {
-        this._manager.servers
-          .getAll()
-          .forEach((server) => this.addServer(server));
+    this._pingSentAt = Date.now();
+    this._socket.ping();
+  }
+
+  private reconnect() {
+    if (this._closed) return;
+
+    const {
+      maxAttempts = Infinity,
+      baseDelay = 1_000,
+      maxDelay = 60_000,
+      jitter = 0.5,
+    } = this._options.reconnect ?? {};
+
+    if (this._connectionAttempts >= maxAttempts) {
+      this._manager.logger.error(
+        `WebSocket Reconnection Failed After ${this._connectionAttempts} Attempts - Giving Up`
+      );
+
+      this._gaveUp = true;
+      this._manager.events.emit(RCEEvent.SocketGaveUp, {
+        account: this._account,
+        attempts: this._connectionAttempts,
+      });
+
+      this._readyWaiters
+        .splice(0)
+        .forEach((waiter) =>
+          waiter.reject(new Error("WebSocket Reconnection Failed"))
+        );
+      return;
+    }
+
+    const backoff = Math.min(
+      baseDelay * 2 ** this._connectionAttempts,
+      maxDelay
+    );
+    const delay = Math.round(backoff * (1 - jitter * Math.random()));
+
+    this._manager.logger.warn(
+      `WebSocket Connection Closed - Reconnecting in ${(delay / 1_000).toFixed(
+        1
+      )} Seconds (Attempt ${this._connectionAttempts + 1})`
+    );
+
+    this._reconnectTimeout = setTimeout(() => this.connect(true), delay);
+  }
+
+  private acknowledge() {
+    this._acknowledged = true;
+
+    // Only an accepted handshake counts, G-Portal opens the socket before rejecting bad auth
+    this._connectionAttempts = 0;
+
+    if (this._resubscribe) {
+      this._resubscribe = false;
+      this._manager.servers.getAll().forEach((server) => {
+        if (server.account === this._account) {
+          this.addServer(server);
+        }
+      });
+    }
+
+    this._pending.forEach(({ identifier, intent }) => {
+      const server = this._manager.servers.get(identifier);
+      if (server) {
+        this.subscribe(server, intent);
       }
-    } else {
-      throw new Error("Socket is not open");
+    });
+    this._pending.clear();
+
+    this._readyWaiters.splice(0).forEach((waiter) => waiter.resolve());
+  }
+
+  private authenticate() {
+    const token = this._auth.accessToken;
+    if (!token) {
+      ServerUtils.error(
+        this._manager,
+        "Failed To Authenticate WebSocket: No Access Token",
+        undefined,
+        this._account
+      );
+      return this._socket.close(4000, "No Access Token");
     }
+
+    if (this._socket?.readyState !== WebSocket.OPEN) return;
+
+    this._manager.logger.debug("Authenticating WebSocket Connection");
+
+    this.send(this._protocol.connectionInit(token));
+  }
+
+  private send(frame: object) {
+    this._socket.send(JSON.stringify(frame));
   }
 }
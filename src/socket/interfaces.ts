@@ -1,19 +1,122 @@
-import type { PlayerKillType } from "../constants";
+import type { KillCategory, PlayerKillType, RCEIntent } from "../constants";
+import type { RustServer } from "../servers/interfaces";
+import type RCEManager from "../Manager";
+
+export type SubscriptionIntent =
+  | RCEIntent.ConsoleMessages
+  | RCEIntent.ServiceState
+  | RCEIntent.ServiceSensors;
 
 export interface WSRequest {
+  id: string;
   identifier: string;
   region: "US" | "EU";
   sid: number;
+  intent: SubscriptionIntent;
+}
+
+export interface ReconnectOptions {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: number;
+}
+
+export interface HeartbeatOptions {
+  interval?: number;
+  timeout?: number;
+}
+
+export interface SocketOptions {
+  reconnect?: ReconnectOptions;
+  heartbeat?: HeartbeatOptions;
+}
+
+export interface SocketStats {
+  connected: boolean;
+  authenticated: boolean;
+  protocol: string;
+  latency: number | null;
+  connectedAt: Date | null;
+  lastMessageAt: Date | null;
+  reconnects: number;
+  subscriptions: number;
 }
 
 export interface WSMessage {
-  type: "connection_ack" | "data" | "ka" | "error";
+  type: "connection_ack" | "data" | "ka" | "error" | "complete";
   payload: any;
   id: string;
 }
 
+export interface WSSubscription {
+  variables: { [key: string]: any };
+  extensions: { [key: string]: any };
+  operationName: string;
+  query: string;
+}
+
+export interface WSDecoded {
+  message?: WSMessage;
+  reply?: object;
+}
+
+export interface IProtocol {
+  readonly name: string;
+  readonly reinitializable: boolean;
+  connectionInit: (token: string) => object;
+  subscribe: (id: string, payload: WSSubscription) => object;
+  unsubscribe: (id: string) => object;
+  keepAlive: () => object;
+  decode: (frame: any) => WSDecoded;
+}
+
 export interface PlayerKillData {
   id: string;
   name: string;
   type: PlayerKillType;
 }
+
+export interface KillEntity {
+  name: string;
+  type: PlayerKillType;
+}
+
+export interface PlayerKill {
+  victim: PlayerKillData;
+  killer: PlayerKillData;
+  category: KillCategory;
+}
+
+export interface LogCheckpoint {
+  timestamp: number; // The last processed console line
+  count: number; // How many lines logged at that exact second were processed
+}
+
+export interface ILogCheckpointStore {
+  get: (identifier: string) => Promise<LogCheckpoint | null>;
+  set: (identifier: string, checkpoint: LogCheckpoint) => Promise<void>;
+}
+
+export interface ConsoleParserContext {
+  manager: RCEManager;
+  server: RustServer;
+  log: string;
+  channel: string;
+  timestamp: Date;
+}
+
+export interface ConsoleParser<T = RegExpMatchArray> {
+  name: string;
+  match:
+    | RegExp
+    | ((log: string, server: RustServer) => T | null | undefined | false);
+  // Return true to stop the parsers after this one from seeing the line
+  emit: (match: T, context: ConsoleParserContext) => boolean | void;
+  enabled?: boolean;
+}
+
+export interface ConsoleParserPosition {
+  before?: string;
+  after?: string;
+}
@@ -0,0 +1,55 @@
+import type { IProtocol, WSDecoded, WSSubscription } from "../interfaces";
+
+/**
+ * The `graphql-transport-ws` protocol (graphql-ws v5+)
+ */
+export default class GraphQLTransportWsProtocol implements IProtocol {
+  public readonly name = "graphql-transport-ws";
+  public readonly reinitializable = false;
+
+  public connectionInit(token: string) {
+    return { type: "connection_init", payload: { authorization: token } };
+  }
+
+  public subscribe(id: string, payload: WSSubscription) {
+    return { type: "subscribe", id, payload };
+  }
+
+  public unsubscribe(id: string) {
+    return { type: "complete", id };
+  }
+
+  public keepAlive() {
+    return { type: "ping" };
+  }
+
+  public decode(frame: any): WSDecoded {
+    switch (frame?.type) {
+      case "connection_ack":
+      case "complete":
+        return { message: frame };
+      case "ping":
+        return {
+          message: { type: "ka", id: frame.id, payload: frame.payload },
+          reply: { type: "pong" },
+        };
+      case "pong":
+        return {
+          message: { type: "ka", id: frame.id, payload: frame.payload },
+        };
+      case "next":
+        return { message: { ...frame, type: "data" } };
+      case "error":
+        // Operation errors arrive as a bare GraphQL error list, wrap them like a legacy `data` frame
+        return {
+          message: {
+            type: "data",
+            id: frame.id,
+            payload: { errors: frame.payload },
+          },
+        };
+      default:
+        return {};
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { IProtocol, WSDecoded, WSSubscription } from "../interfaces";
+
+/**
+ * The legacy `graphql-ws` protocol (subscriptions-transport-ws)
+ */
+export default class GraphQLWsProtocol implements IProtocol {
+  public readonly name = "graphql-ws";
+  public readonly reinitializable = true;
+
+  public connectionInit(token: string) {
+    return { type: "connection_init", payload: { authorization: token } };
+  }
+
+  public subscribe(id: string, payload: WSSubscription) {
+    return { type: "start", id, payload };
+  }
+
+  public unsubscribe(id: string) {
+    return { type: "stop", id };
+  }
+
+  public keepAlive() {
+    return { type: "ka" };
+  }
+
+  public decode(frame: any): WSDecoded {
+    switch (frame?.type) {
+      case "connection_ack":
+      case "ka":
+      case "data":
+      case "complete":
+        return { message: frame };
+      case "error":
+      case "connection_error":
+        return { message: { ...frame, type: "error" } };
+      default:
+        return {};
+    }
+  }
+}
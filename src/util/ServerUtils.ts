@@ -3,8 +3,17 @@ import type RCEManager from "../Manager";
 import { RCEEvent } from "../constants";
 
 export default class ServerUtils {
-  public static error(manager: RCEManager, error: string, server?: RustServer) {
-    manager.events.emit(RCEEvent.Error, { error, server });
+  public static error(
+    manager: RCEManager,
+    error: string,
+    server?: RustServer,
+    account?: string
+  ) {
+    manager.events.emit(RCEEvent.Error, {
+      error,
+      server,
+      account: account ?? server?.account,
+    });
   }
 
   public static async setReady(
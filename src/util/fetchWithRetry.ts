@@ -1,6 +1,10 @@
+const MAX_RETRY_AFTER = 30_000;
+
 /**
  * Retry a fetch request when transient errors occur.
- * Used to mitigate 502-504 responses from G-Portal.
+ * Used to mitigate 429 and 502-504 responses from G-Portal.
+ * A Retry-After header, in seconds or as a date, takes precedence over the backoff, up to 30 seconds.
+ * Aborting `init.signal` also cancels the wait between retries.
  * @param input Request info passed to fetch
  * @param init Request init options
  * @param retries Number of retries
@@ -13,20 +17,53 @@ export default async function fetchWithRetry(
   retryDelay: number = 1000
 ): Promise<Response> {
   for (let attempt = 0; ; attempt++) {
+    let delay = retryDelay * (attempt + 1);
     try {
       const response = await fetch(input, init);
       if (
         response.ok ||
         attempt >= retries ||
-        ![502, 503, 504].includes(response.status)
+        ![429, 502, 503, 504].includes(response.status)
       ) {
         return response;
       }
+
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfter !== null) delay = Math.min(retryAfter, MAX_RETRY_AFTER);
     } catch (error) {
-      if (attempt >= retries) {
+      if (init?.signal?.aborted || attempt >= retries) {
         throw error;
       }
     }
-    await new Promise((resolve) => setTimeout(resolve, retryDelay * (attempt + 1)));
+    await sleep(delay, init?.signal);
   }
 }
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const abort = () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (header.trim() !== "" && Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}